@@ -1,276 +1,114 @@
 import {
   type ChangeEvent,
+  type FormEvent,
+  type DragEvent,
+  type PointerEvent as ReactPointerEvent,
   useCallback,
   useEffect,
   useMemo,
   useRef,
   useState,
 } from 'react';
+import { Application, NoiseFilter } from 'pixi.js';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import { type GifClipOptions, renderGif } from './capture/offline';
+import { capturePng, captureThumbnail } from './capture/stills';
+import CapturePanel, { type Capture } from './components/CapturePanel';
+import CensusPanel from './components/CensusPanel';
+import SeedPanel from './components/SeedPanel';
+import SessionsPanel from './components/SessionsPanel';
+import StylePanel from './components/StylePanel';
+import ThemeEditor from './components/ThemeEditor';
+import { BRUSH_SHAPES, type BrushShape, MAX_BRUSH_SIZE } from './interaction/brush';
+import { attachDrawingControls } from './interaction/drawingControls';
+import { attachStampControls } from './interaction/stampControls';
+import { type Pattern, encodeRle, parsePattern } from './patterns/formats';
+import { PATTERN_LIBRARY, groupLibrary } from './patterns/library';
+import { type RasterOptions, type RasterSource, rasterSeed, renderText } from './patterns/raster';
 import {
-  Application,
-  Container,
-  NoiseFilter,
-  Sprite,
-  Texture,
-} from 'pixi.js';
-
-type AppCanvas = Application<HTMLCanvasElement>;
-
-interface ThemeDefinition {
-  label: string;
-  background: string;
-  backgroundSecondary: string;
-  accent: string;
-  accentSoft: string;
-  accentGlow: string;
-  text: string;
-  textMuted: string;
-  panel: string;
-  panelBorder: string;
-  gradient: string[];
-  cellCore: string;
-  cellMid: string;
-  cellEdge: string;
-  haloColor: string;
-}
-
-interface RuleDefinition {
-  key: string;
-  label: string;
-  description: string;
-  birth: number[];
-  survive: number[];
-}
-
-interface SimulationConfig {
-  cols: number;
-  rows: number;
-  cellSize: number;
-  offsetX: number;
-  offsetY: number;
-}
-
-interface CellVisual {
-  container: Container;
-  core: Sprite;
-  aura: Sprite;
-  alpha: number;
-  auraAlpha: number;
-  scale: number;
-  jitter: number;
-}
-
-interface Stats {
-  generation: number;
-  alive: number;
-  births: number;
-  fades: number;
-}
-
-const THEMES: Record<string, ThemeDefinition> = {
-  aurora: {
-    label: 'Aurora Bloom',
-    background:
-      'radial-gradient(circle at 18% 12%, rgba(18, 8, 43, 0.96) 0%, rgba(7, 12, 36, 0.95) 45%, rgba(1, 2, 8, 0.94) 100%)',
-    backgroundSecondary:
-      'conic-gradient(from 120deg at 70% 40%, rgba(99, 234, 255, 0.18), rgba(255, 118, 214, 0.12), rgba(41, 19, 89, 0.25))',
-    accent: '#ffbaf9',
-    accentSoft: '#7ddff9',
-    accentGlow: '#ffe0ff',
-    text: '#f8f7ff',
-    textMuted: 'rgba(218, 223, 255, 0.72)',
-    panel: 'rgba(12, 16, 32, 0.62)',
-    panelBorder: 'rgba(163, 203, 255, 0.25)',
-    gradient: ['#a8f9ff', '#63d9ff', '#6a7bff', '#b76dff', '#ff6dd6', '#ffe6f3'],
-    cellCore: '#fdfcff',
-    cellMid: '#c7f1ff',
-    cellEdge: '#6abaff',
-    haloColor: 'rgba(120, 204, 255, 0.78)',
-  },
-  noir: {
-    label: 'Midnight Vellum',
-    background:
-      'radial-gradient(circle at 80% 15%, rgba(30, 8, 32, 0.92), rgba(9, 6, 22, 0.94) 52%, rgba(2, 1, 9, 0.95) 100%)',
-    backgroundSecondary:
-      'conic-gradient(from 220deg at 25% 70%, rgba(255, 187, 92, 0.08), rgba(107, 210, 255, 0.14), rgba(36, 16, 64, 0.23))',
-    accent: '#ffc978',
-    accentSoft: '#ffdcb0',
-    accentGlow: '#fff4d3',
-    text: '#f5f0ff',
-    textMuted: 'rgba(228, 210, 255, 0.7)',
-    panel: 'rgba(19, 12, 33, 0.68)',
-    panelBorder: 'rgba(255, 211, 158, 0.22)',
-    gradient: ['#fff3dd', '#fbc488', '#ff956b', '#ff5c86', '#7c5bff', '#c9b2ff'],
-    cellCore: '#fff8f0',
-    cellMid: '#ffdcb2',
-    cellEdge: '#ffa56d',
-    haloColor: 'rgba(255, 174, 102, 0.78)',
-  },
-  lagoon: {
-    label: 'Celestial Lagoon',
-    background:
-      'radial-gradient(circle at 50% 50%, rgba(4, 32, 45, 0.95) 0%, rgba(4, 16, 28, 0.96) 45%, rgba(1, 5, 12, 0.98) 100%)',
-    backgroundSecondary:
-      'conic-gradient(from 160deg at 60% 65%, rgba(40, 255, 220, 0.15), rgba(28, 87, 214, 0.18), rgba(10, 33, 58, 0.38))',
-    accent: '#59ffd6',
-    accentSoft: '#88ffe4',
-    accentGlow: '#ddfff5',
-    text: '#edffff',
-    textMuted: 'rgba(198, 249, 255, 0.76)',
-    panel: 'rgba(8, 23, 26, 0.65)',
-    panelBorder: 'rgba(96, 255, 234, 0.22)',
-    gradient: ['#9fffdc', '#5ce6ff', '#5b9dff', '#6b6eff', '#9b5cff', '#ff99f8'],
-    cellCore: '#f4fff8',
-    cellMid: '#b9fff0',
-    cellEdge: '#4dd6ff',
-    haloColor: 'rgba(86, 255, 227, 0.78)',
-  },
+  IDENTITY_ORIENTATION,
+  type Orientation,
+  flipOrientation,
+  orientPattern,
+  patternIndices,
+  patternPlacement,
+  rotateOrientation,
+} from './patterns/transform';
+import { Camera } from './render/camera';
+import { attachCameraControls } from './render/cameraControls';
+import { CellRenderer } from './render/cellRenderer';
+import { hexToNumber, numberToHex, speciesColors } from './render/color';
+import { type CellLayout, LATTICE_PITCH, type Rect, cellRangeBounds, worldBounds } from './render/layout';
+import { drawMinimap } from './render/minimap';
+import { HighlightOverlay } from './render/highlightOverlay';
+import { StampPreview } from './render/stampPreview';
+import { type CellTextures, createCellTextures, destroyCellTextures } from './render/textures';
+import { THEMES, type ThemeDefinition, applyThemeToDocument } from './render/themes';
+import { GRAINS, RESIZE_POLICIES, type ResizePolicy, UNIVERSES, universeLayout } from './render/universe';
+import { DEFAULT_VISUAL_STYLE, type VisualStyle } from './render/visualStyle';
+import { type SessionSettings, resolveSettings } from './session/settings';
+import { type SharedSession, decodeShareHash, encodeShareHash, sharedGridPlacement } from './session/shareLink';
+import type { NewSession, SessionSummary } from './session/storage';
+import { type StoredTheme, USER_THEME_PREFIX, deleteTheme, listThemes, saveTheme } from './session/themeStorage';
+import { SimulationClient, stepDurationFor } from './simulation/client';
+import { type PaintMode, type SimulationStats, tallySpecies } from './simulation/engine';
+import { HISTORY_BUDGETS, type TimelineStatus } from './simulation/history';
+import type { GridState } from './simulation/protocol';
+import { LIFE_CATALOGUE } from './simulation/census';
+import type { CellBounds } from './simulation/region';
+import { StatsSeries } from './simulation/series';
+import { EVOLVING, SETTLE_POLICIES, type SettlePolicy, type Stability, describeStability } from './simulation/stability';
+import { RULES, type RuleDefinition } from './simulation/rules';
+import { type ParsedRule, createCustomRule, formatRulestring, parseRulestring } from './simulation/rulestring';
+import { BOUNDARIES, type BoundaryMode } from './simulation/topology';
+import { MAX_RANGE, NEIGHBORHOODS, type NeighborhoodShape, latticeOf } from './simulation/neighborhood';
+import { findLiveBounds } from './simulation/region';
+import { downloadBlob } from './utils/download';
+import { formatBytes } from './utils/format';
+import { clamp } from './utils/math';
+import { createRandom, deriveSeed, parseSeed, randomSeed } from './utils/random';
+
+type Tool = 'pan' | 'stamp' | PaintMode;
+
+const TOOLS: Record<Tool, { key: Tool; label: string }> = {
+  draw: { key: 'draw', label: 'Draw' },
+  erase: { key: 'erase', label: 'Erase' },
+  toggle: { key: 'toggle', label: 'Toggle' },
+  stamp: { key: 'stamp', label: 'Stamp' },
+  pan: { key: 'pan', label: 'Pan' },
 };
 
-const RULES: Record<string, RuleDefinition> = {
-  classic: {
-    key: 'classic',
-    label: 'Conway Standard',
-    description: 'Birth on 3, survive on 2-3. Organic balance of chaos and structure.',
-    birth: [3],
-    survive: [2, 3],
-  },
-  coral: {
-    key: 'coral',
-    label: 'Coral Reef',
-    description: 'Birth on 3, survive on 4-8. Slowly growing coral formations.',
-    birth: [3],
-    survive: [4, 5, 6, 7, 8],
-  },
-  highlife: {
-    key: 'highlife',
-    label: 'HighLife',
-    description: 'Birth on 3 and 6, survive on 2-3. Spirals and replicators emerge.',
-    birth: [3, 6],
-    survive: [2, 3],
-  },
-};
-
-const clamp = (value: number, min: number, max: number): number =>
-  Math.min(Math.max(value, min), max);
+const LIBRARY_GROUPS = groupLibrary(PATTERN_LIBRARY);
 
-const lerp = (start: number, end: number, t: number): number => start + (end - start) * t;
+const DEFAULT_LIBRARY_KEY = PATTERN_LIBRARY.glider ? 'glider' : Object.keys(PATTERN_LIBRARY)[0] ?? '';
 
-const hexToNumber = (hex: string): number => Number.parseInt(hex.replace('#', ''), 16);
+/** Generations of stats kept for the analytics chart. */
+const SERIES_CAPACITY = 5000;
 
-const lerpColor = (a: number, b: number, t: number): number => {
-  const ar = (a >> 16) & 0xff;
-  const ag = (a >> 8) & 0xff;
-  const ab = a & 0xff;
-  const br = (b >> 16) & 0xff;
-  const bg = (b >> 8) & 0xff;
-  const bb = b & 0xff;
+const RESIZE_SETTLE_MS = 180;
 
-  const rr = Math.round(lerp(ar, br, t));
-  const gg = Math.round(lerp(ag, bg, t));
-  const bb2 = Math.round(lerp(ab, bb, t));
+const MINIMAP_WIDTH = 180;
 
-  return (rr << 16) + (gg << 8) + bb2;
-};
+const FIT_PADDING = 48;
 
-const sampleGradient = (colors: number[], t: number): number => {
-  if (colors.length === 0) {
-    return 0xffffff;
-  }
-  if (colors.length === 1) {
-    return colors[0];
-  }
-
-  const clamped = clamp(t, 0, 1) * (colors.length - 1);
-  const index = Math.floor(clamped);
-  const fraction = clamped - index;
-  const colorA = colors[index];
-  const colorB = colors[Math.min(colors.length - 1, index + 1)];
-
-  return lerpColor(colorA, colorB, fraction);
-};
-
-const createCellTextures = (theme: ThemeDefinition): { core: Texture; halo: Texture } => {
-  const baseSize = 128;
-  const canvas = document.createElement('canvas');
-  canvas.width = baseSize;
-  canvas.height = baseSize;
-  const context = canvas.getContext('2d');
-
-  if (!context) {
-    return { core: Texture.WHITE, halo: Texture.WHITE };
-  }
-
-  const gradient = context.createRadialGradient(
-    baseSize / 2,
-    baseSize / 2,
-    baseSize * 0.1,
-    baseSize / 2,
-    baseSize / 2,
-    baseSize * 0.48,
-  );
-  gradient.addColorStop(0, theme.cellCore);
-  gradient.addColorStop(0.45, theme.cellMid);
-  gradient.addColorStop(1, theme.cellEdge);
-
-  context.fillStyle = gradient;
-  context.fillRect(0, 0, baseSize, baseSize);
-
-  const imageData = context.getImageData(0, 0, baseSize, baseSize);
-  const data = imageData.data;
-  for (let i = 0; i < data.length; i += 4) {
-    const noise = (Math.random() - 0.5) * 12;
-    data[i] = clamp(data[i] + noise * 1.35, 0, 255);
-    data[i + 1] = clamp(data[i + 1] + noise * 0.7, 0, 255);
-    data[i + 2] = clamp(data[i + 2] + noise * 1.6, 0, 255);
-  }
-  context.putImageData(imageData, 0, 0);
-
-  const core = Texture.from(canvas);
-
-  const haloSize = baseSize * 2;
-  const haloCanvas = document.createElement('canvas');
-  haloCanvas.width = haloSize;
-  haloCanvas.height = haloSize;
-  const haloContext = haloCanvas.getContext('2d');
-
-  if (!haloContext) {
-    return { core, halo: core };
-  }
-
-  const haloGradient = haloContext.createRadialGradient(
-    haloSize / 2,
-    haloSize / 2,
-    baseSize * 0.35,
-    haloSize / 2,
-    haloSize / 2,
-    haloSize / 2,
-  );
-  haloGradient.addColorStop(0, theme.haloColor);
-  haloGradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-
-  haloContext.fillStyle = haloGradient;
-  haloContext.fillRect(0, 0, haloSize, haloSize);
-
-  const halo = Texture.from(haloCanvas);
-
-  return { core, halo };
-};
+/** Texture cache key for the theme editor's unsaved draft. */
+const DRAFT_THEME_KEY = 'draft';
 
 const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
 
+const grainSeedFor = (seed: number): number => createRandom(deriveSeed(seed, 'grain'))() * 1000;
+
 const App = (): JSX.Element => {
   const hostRef = useRef<HTMLDivElement | null>(null);
-  const appRef = useRef<AppCanvas | null>(null);
-  const cellLayerRef = useRef<Container | null>(null);
-  const configRef = useRef<SimulationConfig | null>(null);
-  const stateRef = useRef<Uint8Array | null>(null);
-  const nextStateRef = useRef<Uint8Array | null>(null);
-  const energyRef = useRef<Float32Array | null>(null);
-  const energyBufferRef = useRef<Float32Array | null>(null);
-  const visualsRef = useRef<CellVisual[]>([]);
+  const appRef = useRef<Application | null>(null);
+  const rendererRef = useRef<CellRenderer | null>(null);
+  const cameraRef = useRef(new Camera());
+  const fitZoomRef = useRef(1);
+  const syncCameraRef = useRef<(() => void) | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement | null>(null);
+  const minimapWorldRef = useRef<Rect | null>(null);
+  const clientRef = useRef<SimulationClient | null>(null);
   const pointerRef = useRef<{ x: number; y: number } | null>(null);
-  const generationRef = useRef(0);
 
   const [running, setRunning] = useState(true);
   const runningRef = useRef(running);
@@ -278,26 +116,74 @@ const App = (): JSX.Element => {
   const speedRef = useRef(speed);
   const [density, setDensity] = useState(0.42);
   const densityRef = useRef(density);
-  const [themeKey, setThemeKey] = useState<keyof typeof THEMES>('aurora');
-  const themeKeyRef = useRef<keyof typeof THEMES>('aurora');
+  const [seed, setSeed] = useState(randomSeed);
+  const seedRef = useRef(seed);
+  const [seedDraft, setSeedDraft] = useState(String(seed));
+  const [seedError, setSeedError] = useState(false);
+  const noiseFilterRef = useRef<NoiseFilter | null>(null);
+  const [themeKey, setThemeKey] = useState('aurora');
+  const [userThemes, setUserThemes] = useState<StoredTheme[]>([]);
+  const [previewTheme, setPreviewTheme] = useState<ThemeDefinition | null>(null);
+  /** Texture cache key of the theme on screen: the selected key, or DRAFT_THEME_KEY while previewing. */
+  const themeKeyRef = useRef('aurora');
   const themeRef = useRef<ThemeDefinition>(THEMES.aurora);
+  const themesRef = useRef<Record<string, ThemeDefinition>>(THEMES);
   const gradientRef = useRef<number[]>(THEMES.aurora.gradient.map(hexToNumber));
   const accentGlowRef = useRef<number>(hexToNumber(THEMES.aurora.accentGlow));
-  const [ruleKey, setRuleKey] = useState<keyof typeof RULES>('classic');
-  const ruleRef = useRef<{ birth: Set<number>; survive: Set<number> }>(
-    {
-      birth: new Set(RULES.classic.birth),
-      survive: new Set(RULES.classic.survive),
-    },
-  );
-  const [stats, setStats] = useState<Stats>({ generation: 0, alive: 0, births: 0, fades: 0 });
+  const [visualStyle, setVisualStyle] = useState<VisualStyle>(DEFAULT_VISUAL_STYLE);
+  const visualStyleRef = useRef(visualStyle);
+  const [ruleKey, setRuleKey] = useState<string>('classic');
+  const ruleRef = useRef<RuleDefinition>(RULES.classic);
+  const [customRules, setCustomRules] = useState<RuleDefinition[]>([]);
+  const [ruleDraft, setRuleDraft] = useState(RULES.classic.rulestring);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [boundary, setBoundary] = useState<BoundaryMode>('dead');
+  const boundaryRef = useRef<BoundaryMode>('dead');
+  const [stats, setStats] = useState<SimulationStats>({ generation: 0, alive: 0, births: 0, fades: 0 });
   const [totalCells, setTotalCells] = useState(0);
+  /** Live cells per species on multi-species rules, otherwise null. */
+  const [speciesPopulation, setSpeciesPopulation] = useState<number[] | null>(null);
+  const [paintSpecies, setPaintSpecies] = useState(0);
+  const paintSpeciesRef = useRef(paintSpecies);
+  const [grainKey, setGrainKey] = useState('sculpture');
+  const grainKeyRef = useRef('sculpture');
+  const rebuildRef = useRef<(() => void) | null>(null);
+  const [universeKey, setUniverseKey] = useState('canvas');
+  const universeKeyRef = useRef('canvas');
+  const [zoomLevel, setZoomLevel] = useState(1);
+  const [resizePolicy, setResizePolicy] = useState<ResizePolicy>('recenter');
+  const resizePolicyRef = useRef<ResizePolicy>('recenter');
+  const [historyBudget, setHistoryBudget] = useState('standard');
+  const historyBudgetRef = useRef('standard');
+  const [timeline, setTimeline] = useState<TimelineStatus | null>(null);
+  const [stability, setStability] = useState<Stability>(EVOLVING);
+  const seriesRef = useRef(new StatsSeries(SERIES_CAPACITY));
+  const [highlightRegions, setHighlightRegions] = useState<CellBounds[] | null>(null);
+  const highlightRef = useRef<HighlightOverlay | null>(null);
+  const [settlePolicy, setSettlePolicy] = useState<SettlePolicy>('continue');
+  const [generationsPerSecond, setGenerationsPerSecond] = useState(0);
+  const [tool, setTool] = useState<Tool>('draw');
+  const toolRef = useRef<Tool>('draw');
+  const [brushSize, setBrushSize] = useState(1);
+  const brushSizeRef = useRef(1);
+  const [brushShape, setBrushShape] = useState<BrushShape>('circle');
+  const brushShapeRef = useRef<BrushShape>('circle');
+  const [patternMessage, setPatternMessage] = useState<string | null>(null);
+  const [libraryKey, setLibraryKey] = useState(DEFAULT_LIBRARY_KEY);
+  const [orientation, setOrientation] = useState<Orientation>(IDENTITY_ORIENTATION);
+  const stampRef = useRef<Pattern | null>(null);
+  const stampHoverRef = useRef<{ x: number; y: number } | null>(null);
+  const previewRef = useRef<StampPreview | null>(null);
+  const patternInputRef = useRef<HTMLInputElement | null>(null);
+  /** Grid waiting for the layout that settings applied alongside it will produce. */
+  const pendingGridRef = useRef<((client: SimulationClient, layout: CellLayout) => void) | null>(null);
+  const [pendingGridRevision, setPendingGridRevision] = useState(0);
 
   const stepRef = useRef<(() => void) | null>(null);
-  const randomizeRef = useRef<(() => void) | null>(null);
+  const randomizeRef = useRef<((seed: number) => void) | null>(null);
   const clearRef = useRef<(() => void) | null>(null);
 
-  const textureCacheRef = useRef<Map<string, { core: Texture; halo: Texture }>>(new Map());
+  const textureCacheRef = useRef<Map<string, CellTextures>>(new Map());
 
   const themeOptions = useMemo(
     () =>
@@ -308,6 +194,35 @@ const App = (): JSX.Element => {
     [],
   );
 
+  const userThemeOptions = useMemo(
+    () =>
+      userThemes.map((stored) => ({
+        key: stored.key,
+        label: stored.theme.label,
+      })),
+    [userThemes],
+  );
+
+  const allThemes = useMemo<Record<string, ThemeDefinition>>(() => {
+    const merged: Record<string, ThemeDefinition> = { ...THEMES };
+    userThemes.forEach((stored) => {
+      merged[stored.key] = stored.theme;
+    });
+    return merged;
+  }, [userThemes]);
+
+  const activeTheme = previewTheme ?? allThemes[themeKey] ?? THEMES.aurora;
+
+  const isUserTheme = useCallback((key: string) => key.startsWith(USER_THEME_PREFIX), []);
+
+  const allRules = useMemo<Record<string, RuleDefinition>>(() => {
+    const merged: Record<string, RuleDefinition> = { ...RULES };
+    customRules.forEach((rule) => {
+      merged[rule.key] = rule;
+    });
+    return merged;
+  }, [customRules]);
+
   const ruleOptions = useMemo(
     () =>
       Object.values(RULES).map((rule) => ({
@@ -317,26 +232,97 @@ const App = (): JSX.Element => {
     [],
   );
 
-  const applyThemeToCss = useCallback((theme: ThemeDefinition) => {
-    const root = document.documentElement;
-    root.style.setProperty('--background-gradient', theme.background);
-    root.style.setProperty('--background-overlay', theme.backgroundSecondary);
-    root.style.setProperty('--accent', theme.accent);
-    root.style.setProperty('--accent-soft', theme.accentSoft);
-    root.style.setProperty('--accent-glow', theme.accentGlow);
-    root.style.setProperty('--panel-background', theme.panel);
-    root.style.setProperty('--panel-border', theme.panelBorder);
-    root.style.setProperty('--text-primary', theme.text);
-    root.style.setProperty('--text-muted', theme.textMuted);
-  }, []);
+  const customRuleOptions = useMemo(
+    () =>
+      customRules.map((rule) => ({
+        key: rule.key,
+        label: rule.label,
+      })),
+    [customRules],
+  );
+
+  const neighborhoodOptions = useMemo(
+    () =>
+      Object.values(NEIGHBORHOODS).map((definition) => ({
+        key: definition.key,
+        label: definition.label,
+      })),
+    [],
+  );
+
+  const grainOptions = useMemo(
+    () =>
+      Object.values(GRAINS).map((grain) => ({
+        key: grain.key,
+        label: grain.label,
+      })),
+    [],
+  );
+
+  const universeOptions = useMemo(
+    () =>
+      Object.values(UNIVERSES).map((universe) => ({
+        key: universe.key,
+        label: universe.label,
+      })),
+    [],
+  );
+
+  const resizePolicyOptions = useMemo(
+    () =>
+      Object.values(RESIZE_POLICIES).map((policy) => ({
+        key: policy.key,
+        label: policy.label,
+      })),
+    [],
+  );
+
+  const brushShapeOptions = useMemo(
+    () =>
+      Object.values(BRUSH_SHAPES).map((shape) => ({
+        key: shape.key,
+        label: shape.label,
+      })),
+    [],
+  );
+
+  const settlePolicyOptions = useMemo(
+    () =>
+      Object.values(SETTLE_POLICIES).map((policy) => ({
+        key: policy.key,
+        label: policy.label,
+      })),
+    [],
+  );
+
+  const historyBudgetOptions = useMemo(
+    () =>
+      Object.values(HISTORY_BUDGETS).map((budget) => ({
+        key: budget.key,
+        label: budget.label,
+      })),
+    [],
+  );
+
+  const boundaryOptions = useMemo(
+    () =>
+      Object.values(BOUNDARIES).map((definition) => ({
+        key: definition.key,
+        label: definition.label,
+      })),
+    [],
+  );
 
   const getTextures = useCallback(
-    (key: string): { core: Texture; halo: Texture } => {
+    (key: string): CellTextures => {
       const cache = textureCacheRef.current.get(key);
       if (cache) {
         return cache;
       }
-      const textures = createCellTextures(THEMES[key]);
+      const textures = createCellTextures(
+        themesRef.current[key],
+        createRandom(deriveSeed(seedRef.current, `texture:${key}`)),
+      );
       textureCacheRef.current.set(key, textures);
       return textures;
     },
@@ -345,10 +331,12 @@ const App = (): JSX.Element => {
 
   useEffect(() => {
     runningRef.current = running;
+    clientRef.current?.setRunning(running);
   }, [running]);
 
   useEffect(() => {
     speedRef.current = speed;
+    clientRef.current?.setStepDuration(stepDurationFor(speed));
   }, [speed]);
 
   useEffect(() => {
@@ -356,27 +344,110 @@ const App = (): JSX.Element => {
   }, [density]);
 
   useEffect(() => {
-    const theme = THEMES[themeKey];
-    themeKeyRef.current = themeKey;
+    paintSpeciesRef.current = paintSpecies;
+  }, [paintSpecies]);
+
+  useEffect(() => {
+    visualStyleRef.current = visualStyle;
+    rendererRef.current?.setStyle(visualStyle);
+    clientRef.current?.setEnergyRetention(visualStyle.energyRetention);
+  }, [visualStyle]);
+
+  useEffect(() => {
+    if (seedRef.current === seed) {
+      return;
+    }
+    seedRef.current = seed;
+    setSeedDraft(String(seed));
+    setSeedError(false);
+    const stale = textureCacheRef.current;
+    textureCacheRef.current = new Map();
+    rendererRef.current?.setTextures(getTextures(themeKeyRef.current));
+    stale.forEach(destroyCellTextures);
+    rendererRef.current?.setSeed(deriveSeed(seed, 'scatter'));
+    if (noiseFilterRef.current) {
+      noiseFilterRef.current.seed = grainSeedFor(seed);
+    }
+  }, [seed, getTextures]);
+
+  useEffect(() => {
+    const theme = activeTheme;
+    const textureKey = previewTheme ? DRAFT_THEME_KEY : themeKey;
+    themesRef.current = previewTheme ? { ...allThemes, [DRAFT_THEME_KEY]: previewTheme } : allThemes;
+    themeKeyRef.current = textureKey;
     themeRef.current = theme;
     gradientRef.current = theme.gradient.map(hexToNumber);
     accentGlowRef.current = hexToNumber(theme.accentGlow);
-    applyThemeToCss(theme);
+    applyThemeToDocument(theme);
+
+    // Drafts and re-saved user themes change colours under the same key, so bake afresh, and
+    // let go of textures for themes that have been deleted.
+    const cache = textureCacheRef.current;
+    const stale = [...cache].filter(
+      ([key]) =>
+        !(key in themesRef.current) || (key === textureKey && (key === DRAFT_THEME_KEY || isUserTheme(key))),
+    );
+    stale.forEach(([key]) => cache.delete(key));
+    rendererRef.current?.setTextures(getTextures(textureKey));
+    stale.forEach(([, textures]) => destroyCellTextures(textures));
+  }, [themeKey, previewTheme, allThemes, activeTheme, getTextures, isUserTheme]);
 
-    const textures = getTextures(themeKey);
-    visualsRef.current.forEach((visual) => {
-      visual.core.texture = textures.core;
-      visual.aura.texture = textures.halo;
-    });
-  }, [themeKey, applyThemeToCss, getTextures]);
+  useEffect(() => {
+    const rule = allRules[ruleKey] ?? RULES.classic;
+    ruleRef.current = rule;
+    clientRef.current?.setRule(rule);
+    const layout = rendererRef.current?.layout;
+    if (layout && layout.lattice !== latticeOf(rule.neighborhood)) {
+      rebuildRef.current?.();
+    }
+    setRuleDraft(rule.rulestring);
+    setRuleError(null);
+  }, [ruleKey, allRules]);
 
   useEffect(() => {
-    const rule = RULES[ruleKey];
-    ruleRef.current = {
-      birth: new Set(rule.birth),
-      survive: new Set(rule.survive),
-    };
-  }, [ruleKey]);
+    if (grainKeyRef.current === grainKey && universeKeyRef.current === universeKey) {
+      return;
+    }
+    grainKeyRef.current = grainKey;
+    universeKeyRef.current = universeKey;
+    rebuildRef.current?.();
+  }, [grainKey, universeKey]);
+
+  useEffect(() => {
+    resizePolicyRef.current = resizePolicy;
+  }, [resizePolicy]);
+
+  useEffect(() => {
+    toolRef.current = tool;
+    const canvas = appRef.current?.canvas;
+    if (canvas) {
+      canvas.style.cursor = tool === 'pan' ? '' : 'crosshair';
+    }
+  }, [tool]);
+
+  const libraryEntry = PATTERN_LIBRARY[libraryKey];
+
+  const orientedStamp = useMemo(
+    () => (libraryEntry ? orientPattern(libraryEntry.pattern, orientation) : null),
+    [libraryEntry, orientation],
+  );
+
+  useEffect(() => {
+    stampRef.current = tool === 'stamp' ? orientedStamp : null;
+    if (!stampRef.current) {
+      previewRef.current?.hide();
+    }
+  }, [tool, orientedStamp]);
+
+  useEffect(() => {
+    brushSizeRef.current = brushSize;
+    brushShapeRef.current = brushShape;
+  }, [brushSize, brushShape]);
+
+  useEffect(() => {
+    boundaryRef.current = boundary;
+    clientRef.current?.setBoundary(boundary);
+  }, [boundary]);
 
   useEffect(() => {
     let destroyed = false;
@@ -387,7 +458,7 @@ const App = (): JSX.Element => {
       return undefined;
     }
 
-    const app = new Application<HTMLCanvasElement>();
+    const app = new Application();
 
     const initialize = async (): Promise<void> => {
       await app.init({
@@ -401,7 +472,9 @@ const App = (): JSX.Element => {
         return;
       }
 
-      app.stage.filters = [new NoiseFilter({ noise: 0.025, seed: Math.random() * 1000 })];
+      const noiseFilter = new NoiseFilter({ noise: 0.025, seed: grainSeedFor(seedRef.current) });
+      noiseFilterRef.current = noiseFilter;
+      app.stage.filters = [noiseFilter];
       appRef.current = app;
       host.appendChild(app.canvas);
 
@@ -418,304 +491,216 @@ const App = (): JSX.Element => {
       app.stage.on('pointerdown', pointerMove);
       app.stage.on('pointerleave', pointerLeave);
 
-      const rebuildGrid = (): void => {
-        const { width, height } = app.renderer;
+      const camera = cameraRef.current;
 
-        if (cellLayerRef.current) {
-          cellLayerRef.current.destroy({ children: true });
-          cellLayerRef.current = null;
-        }
-
-        const area = width * height;
-        const targetCells = clamp(Math.round(area / 650), 1200, 9800);
-        const cellSize = clamp(Math.sqrt((width * height) / targetCells), 12, 28);
-        const cols = Math.floor(width / cellSize);
-        const rows = Math.floor(height / cellSize);
-        const offsetX = (width - cols * cellSize) / 2 + cellSize / 2;
-        const offsetY = (height - rows * cellSize) / 2 + cellSize / 2;
-
-        const length = cols * rows;
-        stateRef.current = new Uint8Array(length);
-        nextStateRef.current = new Uint8Array(length);
-        energyRef.current = new Float32Array(length);
-        energyBufferRef.current = new Float32Array(length);
-        visualsRef.current = [];
-        configRef.current = { cols, rows, cellSize, offsetX, offsetY };
-        generationRef.current = 0;
-        setStats({ generation: 0, alive: 0, births: 0, fades: 0 });
-        setTotalCells(length);
-
-        const textures = getTextures(themeKeyRef.current);
-
-        const cellLayer = new Container();
-        cellLayerRef.current = cellLayer;
-        app.stage.addChild(cellLayer);
-
-        for (let y = 0; y < rows; y += 1) {
-          for (let x = 0; x < cols; x += 1) {
-            const container = new Container();
-            const aura = new Sprite(textures.halo);
-            aura.anchor.set(0.5);
-            aura.alpha = 0;
-            aura.scale.set(1.75);
-            aura.blendMode = 'add';
-
-            const core = new Sprite(textures.core);
-            core.anchor.set(0.5);
-            core.alpha = 0;
-            core.blendMode = 'screen';
-
-            container.addChild(aura);
-            container.addChild(core);
-            container.x = offsetX + x * cellSize;
-            container.y = offsetY + y * cellSize;
-            container.scale.set(0.3);
-            container.rotation = Math.random() * Math.PI * 2;
-
-            cellLayer.addChild(container);
-
-            visualsRef.current.push({
-              container,
-              core,
-              aura,
-              alpha: 0,
-              auraAlpha: 0,
-              scale: 0.3,
-              jitter: Math.random() * Math.PI * 2,
-            });
-          }
+      const client = new SimulationClient((snapshot) => {
+        if (destroyed) {
+          return;
         }
+        const series = seriesRef.current;
+        const cellCount = snapshot.cols * snapshot.rows;
+        snapshot.steps.forEach((step) => series.record(step, cellCount));
+        series.record(snapshot.stats, cellCount);
+        setStats(snapshot.stats);
+        setSpeciesPopulation(
+          snapshot.speciesCount > 1 ? tallySpecies(snapshot.state, snapshot.species, snapshot.speciesCount) : null,
+        );
+        setGenerationsPerSecond(snapshot.generationsPerSecond);
+        setTimeline(snapshot.timeline);
+        setStability(snapshot.stability);
+      });
+      clientRef.current = client;
+      client.setRunning(runningRef.current);
+      client.setStepDuration(stepDurationFor(speedRef.current));
+      client.setEnergyRetention(visualStyleRef.current.energyRetention);
+      client.setHistoryBudget(HISTORY_BUDGETS[historyBudgetRef.current].maxBytes);
+
+      const renderer = new CellRenderer(getTextures(themeKeyRef.current), deriveSeed(seedRef.current, 'scatter'));
+      renderer.setStyle(visualStyleRef.current);
+      rendererRef.current = renderer;
+      app.stage.addChild(renderer.view);
+
+      const preview = new StampPreview();
+      previewRef.current = preview;
+      preview.hide();
+      app.stage.addChild(preview.view);
+
+      const highlight = new HighlightOverlay();
+      highlightRef.current = highlight;
+      highlight.hide();
+      app.stage.addChild(highlight.view);
+
+      const syncCamera = (): void => {
+        camera.apply(renderer.view);
+        camera.apply(preview.view);
+        camera.apply(highlight.view);
+        setZoomLevel(camera.zoom / fitZoomRef.current);
+      };
+      syncCameraRef.current = syncCamera;
 
-        const randomize = (): void => {
-          const state = stateRef.current;
-          const energy = energyRef.current;
-          const next = nextStateRef.current;
-          const energyBuffer = energyBufferRef.current;
-          if (!state || !energy || !next || !energyBuffer) {
-            return;
-          }
-
-          let aliveCount = 0;
-          for (let i = 0; i < state.length; i += 1) {
-            const alive = Math.random() < densityRef.current;
-            if (alive) {
-              const age = Math.floor(Math.random() * 5) + 1;
-              state[i] = age;
-              energy[i] = age * 6;
-              aliveCount += 1;
-            } else {
-              state[i] = 0;
-              energy[i] = 0;
-            }
-            next[i] = 0;
-            energyBuffer[i] = 0;
-          }
-          generationRef.current = 0;
-          if (!destroyed) {
-            setStats({ generation: 0, alive: aliveCount, births: aliveCount, fades: 0 });
-          }
-        };
-
-        const clear = (): void => {
-          stateRef.current?.fill(0);
-          nextStateRef.current?.fill(0);
-          energyRef.current?.fill(0);
-          energyBufferRef.current?.fill(0);
-          generationRef.current = 0;
-          if (!destroyed) {
-            setStats({ generation: 0, alive: 0, births: 0, fades: 0 });
-          }
-        };
-
-        const stepSimulation = (): void => {
-          const state = stateRef.current;
-          const next = nextStateRef.current;
-          const energy = energyRef.current;
-          const energyNext = energyBufferRef.current;
-          const config = configRef.current;
-          const rule = ruleRef.current;
-
-          if (!state || !next || !energy || !energyNext || !config || !rule) {
-            return;
-          }
-
-          const { cols, rows } = config;
-          let aliveCount = 0;
-          let births = 0;
-          let fades = 0;
-
-          for (let y = 0; y < rows; y += 1) {
-            for (let x = 0; x < cols; x += 1) {
-              const index = y * cols + x;
-              const age = state[index];
-              const alive = age > 0;
-              let neighbors = 0;
-              let neighborAge = 0;
-              let neighborEnergy = 0;
-
-              for (let ny = -1; ny <= 1; ny += 1) {
-                const yy = y + ny;
-                if (yy < 0 || yy >= rows) {
-                  continue;
-                }
-
-                for (let nx = -1; nx <= 1; nx += 1) {
-                  if (nx === 0 && ny === 0) {
-                    continue;
-                  }
-                  const xx = x + nx;
-                  if (xx < 0 || xx >= cols) {
-                    continue;
-                  }
-                  const neighborIndex = yy * cols + xx;
-                  const neighborAgeValue = state[neighborIndex];
-                  if (neighborAgeValue > 0) {
-                    neighbors += 1;
-                    neighborAge += neighborAgeValue;
-                    neighborEnergy += energy[neighborIndex];
-                  }
-                }
-              }
-
-              let newAge = 0;
-              if (alive) {
-                if (rule.survive.has(neighbors)) {
-                  newAge = Math.min(200, age + 1);
-                }
-              } else if (rule.birth.has(neighbors)) {
-                newAge = 1;
-              }
-
-              if (newAge > 0) {
-                aliveCount += 1;
-              }
-              if (!alive && newAge > 0) {
-                births += 1;
-              }
-              if (alive && newAge === 0) {
-                fades += 1;
-              }
-
-              next[index] = newAge;
-
-              const neighborAgeAverage = neighbors > 0 ? neighborAge / neighbors : 0;
-              const neighborEnergyAverage = neighbors > 0 ? neighborEnergy / neighbors : 0;
-              const targetEnergy = newAge > 0
-                ? newAge * 6 + neighborAgeAverage * 1.2 + neighborEnergyAverage * 0.35
-                : neighborAgeAverage * 0.8;
-              const blended = energy[index] * 0.55 + targetEnergy * 0.45;
-              energyNext[index] = blended;
-            }
-          }
-
-          stateRef.current = next;
-          nextStateRef.current = state;
-          energyRef.current = energyNext;
-          energyBufferRef.current = energy;
-
-          generationRef.current += 1;
-          if (!destroyed) {
-            setStats({
-              generation: generationRef.current,
-              alive: aliveCount,
-              births,
-              fades,
-            });
+      const detachCameraControls = attachCameraControls(app, camera, {
+        onChange: syncCamera,
+        canPan: (event) => toolRef.current === 'pan' || event.button === 1,
+      });
+      const detachDrawingControls = attachDrawingControls(app, camera, {
+        getLayout: () => renderer.layout,
+        getBrush: () => {
+          const current = toolRef.current;
+          return current === 'pan' || current === 'stamp'
+            ? null
+            : { mode: current, size: brushSizeRef.current, shape: brushShapeRef.current };
+        },
+        onPaint: (cells, mode, stroke) => client.paint(cells, mode, stroke, paintSpeciesRef.current),
+      });
+      const detachStampControls = attachStampControls(app, camera, {
+        getLayout: () => renderer.layout,
+        getStamp: () => stampRef.current,
+        onHover: (origin) => {
+          stampHoverRef.current = origin;
+        },
+        onStamp: (origin) => {
+          const layout = renderer.layout;
+          const stamp = stampRef.current;
+          if (layout && stamp) {
+            client.paint(
+              patternIndices(stamp, origin.x, origin.y, layout.cols, layout.rows),
+              'draw',
+              undefined,
+              paintSpeciesRef.current,
+            );
           }
-        };
-
-        randomizeRef.current = randomize;
-        clearRef.current = clear;
-        stepRef.current = stepSimulation;
+        },
+      });
 
-        randomize();
+      const fitUniverse = (layout: CellLayout): void => {
+        const world = worldBounds(layout);
+        const viewport = app.screen;
+        const fitZoom = Math.min(viewport.width / world.width, viewport.height / world.height);
+        fitZoomRef.current = fitZoom;
+        camera.minZoom = fitZoom * 0.5;
+        camera.maxZoom = Math.max(4, fitZoom * 24);
+        camera.fit(world, viewport);
+        syncCamera();
       };
 
-      rebuildGrid();
+      const layoutFor = (width: number, height: number): CellLayout =>
+        universeLayout(
+          UNIVERSES[universeKeyRef.current],
+          GRAINS[grainKeyRef.current],
+          latticeOf(ruleRef.current.neighborhood),
+          width,
+          height,
+        );
+
+      const resizeMinimap = (layout: CellLayout): void => {
+        const minimap = minimapRef.current;
+        if (minimap) {
+          minimap.width = MINIMAP_WIDTH;
+          const world = worldBounds(layout);
+          minimap.height = clamp(Math.round((MINIMAP_WIDTH * world.height) / world.width), 48, MINIMAP_WIDTH);
+        }
+      };
 
-      const handleResize = (): void => {
-        rebuildGrid();
+      const applyLayout = (layout: CellLayout): void => {
+        renderer.setLayout(layout);
+        fitUniverse(layout);
+        resizeMinimap(layout);
+        setTotalCells(layout.cols * layout.rows);
       };
 
-      window.addEventListener('resize', handleResize);
+      const seedGrid = (): void => {
+        const layout = layoutFor(app.renderer.width, app.renderer.height);
+        client.init(layout.cols, layout.rows, ruleRef.current, boundaryRef.current);
+        applyLayout(layout);
+        setStats({ generation: 0, alive: 0, births: 0, fades: 0 });
+        const pending = pendingGridRef.current;
+        pendingGridRef.current = null;
+        if (pending) {
+          pending(client, layout);
+        } else {
+          client.randomize(densityRef.current, deriveSeed(seedRef.current, 'soup'));
+        }
+      };
 
-      const timeState = { current: 0 };
-      let accumulator = 0;
-
-      const updateVisuals = (_deltaMS: number): void => {
-        const state = stateRef.current;
-        const energy = energyRef.current;
-        const visuals = visualsRef.current;
-        const config = configRef.current;
-        const theme = themeRef.current;
-        const gradient = gradientRef.current;
-        const accentGlow = accentGlowRef.current;
-
-        if (!state || !visuals || !config || !theme) {
+      const relayout = (): void => {
+        const current = renderer.layout;
+        const layout = layoutFor(app.renderer.width, app.renderer.height);
+        if (
+          current
+          && current.cols === layout.cols
+          && current.rows === layout.rows
+          && current.cellSize === layout.cellSize
+          && current.lattice === layout.lattice
+        ) {
+          fitUniverse(current);
           return;
         }
+        if (!current || current.cols !== layout.cols || current.rows !== layout.rows) {
+          client.resize(layout.cols, layout.rows);
+        }
+        applyLayout(layout);
+      };
 
-        const pointer = pointerRef.current;
-
-        for (let i = 0; i < visuals.length; i += 1) {
-          const visual = visuals[i];
-          const age = state[i];
-          const alive = age > 0;
-          const energyValue = energy ? energy[i] : 0;
-          const energyNorm = clamp(energyValue / 180, 0, 1);
-
-          const baseAlpha = alive ? 0.32 + Math.min(0.6, age / 32 + energyNorm * 0.5) : 0;
-          visual.alpha += (baseAlpha - visual.alpha) * 0.08;
-
-          const harmonic = Math.sin(timeState.current * 0.0011 + visual.jitter + energyNorm * 2.8);
-          const neighborPulse = energyNorm * 0.45 + harmonic * 0.08;
-          let targetScale = alive ? 0.55 + Math.min(0.75, age / 90) + neighborPulse : 0.24;
-
-          if (pointer) {
-            const dx = visual.container.x - pointer.x;
-            const dy = visual.container.y - pointer.y;
-            const distance = Math.hypot(dx, dy);
-            const influence = Math.max(0, 1 - distance / (config.cellSize * 12));
-            targetScale += influence * 0.25;
-          }
-
-          visual.scale += (targetScale - visual.scale) * 0.09;
-          visual.container.scale.set(visual.scale);
-
-          const rotationTarget = alive ? harmonic * 0.3 * (0.45 + energyNorm * 0.6) : 0;
-          visual.container.rotation += (rotationTarget - visual.container.rotation) * 0.07;
+      randomizeRef.current = (next) => client.randomize(densityRef.current, deriveSeed(next, 'soup'));
+      clearRef.current = () => client.clear();
+      stepRef.current = () => client.step();
 
-          visual.core.alpha = visual.alpha;
-          const auraTarget = alive ? visual.alpha * (0.55 + energyNorm * 0.7) : 0;
-          visual.auraAlpha += (auraTarget - visual.auraAlpha) * 0.1;
-          visual.aura.alpha = visual.auraAlpha;
-          visual.aura.scale.set(1.6 + energyNorm * 0.75);
+      seedGrid();
+      rebuildRef.current = relayout;
 
-          const color = sampleGradient(gradient, Math.min(1, age / 18 + energyNorm * 0.55));
-          visual.core.tint = color;
-          const auraColor = sampleGradient(gradient, Math.min(1, energyNorm + 0.35));
-          visual.aura.tint = lerpColor(auraColor, accentGlow, 0.35);
+      let resizeTimer: ReturnType<typeof setTimeout> | null = null;
+      const handleResize = (): void => {
+        if (resizeTimer !== null) {
+          clearTimeout(resizeTimer);
         }
+        resizeTimer = setTimeout(() => {
+          resizeTimer = null;
+          const layout = renderer.layout;
+          if (layout && (UNIVERSES[universeKeyRef.current].cols || resizePolicyRef.current === 'keep')) {
+            fitUniverse(layout);
+            return;
+          }
+          relayout();
+        }, RESIZE_SETTLE_MS);
       };
 
+      window.addEventListener('resize', handleResize);
+
+      const timeState = { current: 0 };
+      let frame = 0;
+
       const ticker = (tickerInfo: { deltaMS: number }): void => {
         if (destroyed) {
           return;
         }
         timeState.current += tickerInfo.deltaMS;
-        accumulator += tickerInfo.deltaMS;
-        const stepDuration = 120 + (1 - speedRef.current) * 720;
-
-        if (runningRef.current && stepRef.current) {
-          while (accumulator >= stepDuration) {
-            stepRef.current();
-            accumulator -= stepDuration;
-          }
+        frame += 1;
+        const snapshot = client.snapshot;
+        if (!snapshot) {
+          return;
+        }
+        const pointer = pointerRef.current;
+        renderer.update(snapshot, timeState.current, pointer ? camera.toWorld(pointer.x, pointer.y) : null, {
+          gradient: gradientRef.current,
+          accentGlow: accentGlowRef.current,
+        });
+
+        const layout = renderer.layout;
+        const stamp = stampRef.current;
+        const hover = stampHoverRef.current;
+        if (layout && stamp && hover) {
+          preview.show(stamp, hover.x, hover.y, layout, hexToNumber(themeRef.current.accent));
         } else {
-          accumulator = Math.min(accumulator, stepDuration);
+          preview.hide();
         }
 
-        updateVisuals(tickerInfo.deltaMS);
+        const minimap = minimapRef.current;
+        if (layout && minimap && frame % 8 === 0) {
+          minimapWorldRef.current = drawMinimap(minimap, snapshot, layout, camera.visibleRect(app.screen), {
+            cell: accentGlowRef.current,
+            frame: themeRef.current.accent,
+          });
+        }
       };
 
       app.ticker.add(ticker);
@@ -725,21 +710,41 @@ const App = (): JSX.Element => {
       };
       app.renderer.on('resize', rendererResize);
 
-      (app.view as HTMLCanvasElement).style.filter = 'drop-shadow(0 0 50px rgba(255, 255, 255, 0.08))';
+      app.canvas.style.filter = 'drop-shadow(0 0 50px rgba(255, 255, 255, 0.08))';
+      app.canvas.style.cursor = toolRef.current === 'pan' ? '' : 'crosshair';
       app.stage.sortableChildren = false;
 
       cleanup = () => {
         window.removeEventListener('resize', handleResize);
+        if (resizeTimer !== null) {
+          clearTimeout(resizeTimer);
+        }
+        detachCameraControls();
+        detachDrawingControls();
+        detachStampControls();
+        previewRef.current = null;
+        preview.destroy();
+        highlightRef.current = null;
+        highlight.destroy();
+        syncCameraRef.current = null;
         app.ticker.remove(ticker);
         app.stage.off('pointermove', pointerMove);
         app.stage.off('pointerdown', pointerMove);
         app.stage.off('pointerleave', pointerLeave);
         app.renderer.off('resize', rendererResize);
         randomizeRef.current = null;
+        noiseFilterRef.current = null;
         clearRef.current = null;
         stepRef.current = null;
-        cellLayerRef.current?.destroy({ children: true });
-        cellLayerRef.current = null;
+        client.dispose();
+        if (clientRef.current === client) {
+          clientRef.current = null;
+        }
+        rebuildRef.current = null;
+        renderer.destroy();
+        if (rendererRef.current === renderer) {
+          rendererRef.current = null;
+        }
       };
     };
 
@@ -754,10 +759,7 @@ const App = (): JSX.Element => {
         appRef.current = null;
       }
       app.destroy(true, { children: true });
-      textureCacheRef.current.forEach((texture) => {
-        texture.core.destroy(true);
-        texture.halo.destroy(true);
-      });
+      textureCacheRef.current.forEach(destroyCellTextures);
       textureCacheRef.current.clear();
     };
   }, [getTextures]);
@@ -766,6 +768,104 @@ const App = (): JSX.Element => {
     setRunning((prev) => !prev);
   }, []);
 
+  /** History navigation pauses first so the next generation does not overwrite the redo branch. */
+  const pauseForHistory = useCallback(() => {
+    setRunning(false);
+    clientRef.current?.setRunning(false);
+  }, []);
+
+  const handleStepBack = useCallback(() => {
+    pauseForHistory();
+    clientRef.current?.stepBack();
+  }, [pauseForHistory]);
+
+  const handleUndo = useCallback(() => {
+    pauseForHistory();
+    clientRef.current?.undo();
+  }, [pauseForHistory]);
+
+  const handleRedo = useCallback(() => {
+    pauseForHistory();
+    clientRef.current?.redo();
+  }, [pauseForHistory]);
+
+  const handleScrub = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      pauseForHistory();
+      clientRef.current?.seek(Number(event.target.value));
+    },
+    [pauseForHistory],
+  );
+
+  const getSnapshot = useCallback(() => clientRef.current?.snapshot ?? null, []);
+
+  useEffect(() => {
+    const overlay = highlightRef.current;
+    const layout = rendererRef.current?.layout;
+    if (!overlay) {
+      return;
+    }
+    if (highlightRegions && layout) {
+      overlay.show(highlightRegions, layout, hexToNumber(activeTheme.accentSoft));
+    } else {
+      overlay.hide();
+    }
+  }, [highlightRegions, activeTheme]);
+
+  /** Draws a new soup from `next`, which also becomes the seed for textures and grain. */
+  const reseed = useCallback((next: number) => {
+    setSeed(next);
+    randomizeRef.current?.(next);
+  }, []);
+
+  const handleSettlePolicyChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setSettlePolicy(event.target.value as SettlePolicy);
+  }, []);
+
+  // Acts once per verdict: `since` changes whenever the colony settles anew. Verdicts that
+  // already held when the board was edited (clearing it, say) are the user's doing, not the
+  // colony's, and are left alone.
+  useEffect(() => {
+    if (stability.kind === 'evolving' || !stability.stepped || !runningRef.current) {
+      return;
+    }
+    if (settlePolicy === 'pause') {
+      setRunning(false);
+    } else if (settlePolicy === 'reseed') {
+      reseed(randomSeed());
+    }
+  }, [stability.kind, stability.period, stability.since, stability.stepped, settlePolicy, reseed]);
+
+  const handleHistoryBudgetChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setHistoryBudget(event.target.value);
+  }, []);
+
+  useEffect(() => {
+    historyBudgetRef.current = historyBudget;
+    clientRef.current?.setHistoryBudget(HISTORY_BUDGETS[historyBudget].maxBytes);
+  }, [historyBudget]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      const target = event.target as HTMLElement | null;
+      const editing = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+      if (!(event.ctrlKey || event.metaKey) || editing) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        handleRedo();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   const handleStep = useCallback(() => {
     if (stepRef.current) {
       stepRef.current();
@@ -773,13 +873,93 @@ const App = (): JSX.Element => {
   }, []);
 
   const handleRandomize = useCallback(() => {
-    randomizeRef.current?.();
+    reseed(randomSeed());
+  }, [reseed]);
+
+  const handleSeedDraftChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setSeedDraft(event.target.value);
+    setSeedError(false);
   }, []);
 
+  const handleSeedSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const value = parseSeed(seedDraft);
+      if (value === null) {
+        setSeedError(true);
+        return;
+      }
+      reseed(value);
+    },
+    [seedDraft, reseed],
+  );
+
   const handleClear = useCallback(() => {
     clearRef.current?.();
   }, []);
 
+  const handleLibraryChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      const entry = PATTERN_LIBRARY[event.target.value];
+      if (!entry) {
+        return;
+      }
+      setLibraryKey(entry.key);
+      setOrientation(IDENTITY_ORIENTATION);
+      setTool('stamp');
+      if (entry.ruleKey !== ruleRef.current.key) {
+        setRuleKey(entry.ruleKey);
+      }
+    },
+    [],
+  );
+
+  const handleRotate = useCallback(() => {
+    setOrientation((previous) => rotateOrientation(previous, 1));
+  }, []);
+
+  const handleFlip = useCallback(() => {
+    setOrientation((previous) => flipOrientation(previous));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      const target = event.target as HTMLElement | null;
+      if (
+        !stampRef.current
+        || event.ctrlKey
+        || event.metaKey
+        || event.altKey
+        || (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA'))
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'r') {
+        setOrientation((previous) => rotateOrientation(previous, event.shiftKey ? -1 : 1));
+      } else if (key === 'f') {
+        setOrientation((previous) => flipOrientation(previous));
+      } else if (key === 'v') {
+        setOrientation((previous) => flipOrientation(previous, true));
+      } else if (key === 'escape') {
+        setTool('draw');
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleBrushSizeChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setBrushSize(Number(event.target.value));
+  }, []);
+
+  const handleBrushShapeChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setBrushShape(event.target.value as BrushShape);
+  }, []);
+
   const handleSpeedChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
     setSpeed(Number(event.target.value));
   }, []);
@@ -789,19 +969,541 @@ const App = (): JSX.Element => {
   }, []);
 
   const handleThemeChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
-    setThemeKey(event.target.value as keyof typeof THEMES);
+    setThemeKey(event.target.value);
   }, []);
 
   const handleRuleChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
-    setRuleKey(event.target.value as keyof typeof RULES);
+    setRuleKey(event.target.value);
+  }, []);
+
+  const handleRuleDraftChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setRuleDraft(event.target.value);
+    setRuleError(null);
   }, []);
 
-  const theme = THEMES[themeKey];
-  const currentRule = RULES[ruleKey];
+  const updateDraftReach = useCallback(
+    (reach: { range?: number; neighborhood?: NeighborhoodShape }) => {
+      const result = parseRulestring(ruleDraft);
+      if (!result.ok) {
+        setRuleError(result.error);
+        return;
+      }
+      setRuleDraft(formatRulestring({ ...result.rule, ...reach }));
+      setRuleError(null);
+    },
+    [ruleDraft],
+  );
+
+  const handleRangeChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      updateDraftReach({ range: clamp(Math.round(Number(event.target.value)), 1, MAX_RANGE) });
+    },
+    [updateDraftReach],
+  );
+
+  const handleNeighborhoodChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      updateDraftReach({ neighborhood: event.target.value as NeighborhoodShape });
+    },
+    [updateDraftReach],
+  );
+
+  /** Selects the rule matching `parsed`, registering it as a custom rule when it is new. */
+  const adoptRule = useCallback(
+    (parsed: ParsedRule): RuleDefinition => {
+      const rulestring = formatRulestring(parsed);
+      const existing = Object.values(allRules).find((rule) => rule.rulestring === rulestring);
+      if (existing) {
+        setRuleKey(existing.key);
+        setRuleDraft(existing.rulestring);
+        setRuleError(null);
+        return existing;
+      }
+      const custom = createCustomRule(parsed);
+      setCustomRules((previous) => [...previous, custom]);
+      setRuleKey(custom.key);
+      return custom;
+    },
+    [allRules],
+  );
+
+  const handleRuleSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const result = parseRulestring(ruleDraft);
+      if (!result.ok) {
+        setRuleError(result.error);
+        return;
+      }
+      adoptRule(result.rule);
+    },
+    [ruleDraft, adoptRule],
+  );
+
+  const placePattern = useCallback(
+    (pattern: Pattern, source: string) => {
+      const client = clientRef.current;
+      const layout = rendererRef.current?.layout;
+      if (!client || !layout) {
+        return;
+      }
+      const { cols, rows } = layout;
+      const shiftX = Math.floor((cols - pattern.width) / 2);
+      const shiftY = Math.floor((rows - pattern.height) / 2);
+      const { cells, species } = patternPlacement(pattern, shiftX, shiftY, cols, rows);
+
+      const notes: string[] = [];
+      if (pattern.rule) {
+        const result = parseRulestring(pattern.rule.split(':')[0]);
+        if (result.ok) {
+          notes.push(adoptRule(result.rule).label);
+        } else {
+          notes.push(`rule "${pattern.rule}" not supported, kept ${ruleRef.current.label}`);
+        }
+      }
+      const cropped = pattern.cells.length - cells.length;
+      if (cropped > 0) {
+        notes.push(`${cropped.toLocaleString()} cells cropped to fit`);
+      }
+
+      client.load(cells, species);
+      const title = `${pattern.name ?? source} · ${pattern.width}×${pattern.height}`;
+      setPatternMessage([title, ...notes].join(' · '));
+    },
+    [adoptRule],
+  );
+
+  const importPatternText = useCallback(
+    (text: string, source: string): boolean => {
+      const result = parsePattern(text);
+      if (!result.ok) {
+        setPatternMessage(`${source}: ${result.error}`);
+        return false;
+      }
+      placePattern(result.pattern, source);
+      return true;
+    },
+    [placePattern],
+  );
+
+  const importPatternFile = useCallback(
+    (file: File) => {
+      file
+        .text()
+        .then((text) => importPatternText(text, file.name))
+        .catch(() => setPatternMessage(`${file.name} could not be read.`));
+    },
+    [importPatternText],
+  );
+
+  const handleImportClick = useCallback(() => {
+    patternInputRef.current?.click();
+  }, []);
+
+  const handlePatternFileChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (file) {
+        importPatternFile(file);
+      }
+      event.target.value = '';
+    },
+    [importPatternFile],
+  );
+
+  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    if (event.dataTransfer.types.includes('Files')) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      const file = event.dataTransfer.files[0];
+      if (file) {
+        event.preventDefault();
+        importPatternFile(file);
+      }
+    },
+    [importPatternFile],
+  );
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent): void => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+      const text = event.clipboardData?.getData('text/plain');
+      if (text && importPatternText(text, 'Clipboard')) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [importPatternText]);
+
+  const exportRle = useCallback((): { text: string; generation: number } | null => {
+    const snapshot = clientRef.current?.snapshot;
+    if (!snapshot) {
+      return null;
+    }
+    const bounds = findLiveBounds(snapshot.state, snapshot.cols, snapshot.rows);
+    if (!bounds) {
+      setPatternMessage('Nothing alive to export.');
+      return null;
+    }
+    const { generation } = snapshot.stats;
+    const comment = `Lumen Life Observatory · generation ${generation}`;
+    return {
+      text: encodeRle(snapshot.state, snapshot.cols, bounds, ruleRef.current.rulestring, {
+        comment,
+        species: snapshot.speciesCount > 1 ? snapshot.species : undefined,
+      }),
+      generation,
+    };
+  }, []);
+
+  const handleCopyRle = useCallback(() => {
+    const exported = exportRle();
+    if (!exported) {
+      return;
+    }
+    navigator.clipboard
+      .writeText(exported.text)
+      .then(() => setPatternMessage(`Copied generation ${exported.generation} as RLE.`))
+      .catch(() => setPatternMessage('Clipboard access was refused; try Download instead.'));
+  }, [exportRle]);
+
+  const handleDownloadRle = useCallback(() => {
+    const exported = exportRle();
+    if (!exported) {
+      return;
+    }
+    downloadBlob(new Blob([exported.text], { type: 'text/plain' }), `lumen-generation-${exported.generation}.rle`);
+    setPatternMessage(`Saved generation ${exported.generation} as RLE.`);
+  }, [exportRle]);
+
+  const sessionSettings = useMemo<SessionSettings>(
+    () => ({
+      theme: themeKey,
+      rule: (allRules[ruleKey] ?? RULES.classic).rulestring,
+      boundary,
+      grain: grainKey,
+      universe: universeKey,
+      speed,
+      density,
+      seed,
+      style: visualStyle,
+    }),
+    [themeKey, allRules, ruleKey, boundary, grainKey, universeKey, speed, density, seed, visualStyle],
+  );
+
+  /** Applies saved or shared control values, ignoring any the current build does not know. */
+  const applySettings = useCallback(
+    (settings: Partial<SessionSettings>) => {
+      const resolved = resolveSettings(settings, allThemes);
+      if (resolved.theme) {
+        setThemeKey(resolved.theme);
+      }
+      if (resolved.rule) {
+        adoptRule(resolved.rule);
+      }
+      if (resolved.boundary) {
+        setBoundary(resolved.boundary);
+      }
+      if (resolved.grain) {
+        setGrainKey(resolved.grain);
+      }
+      if (resolved.universe) {
+        setUniverseKey(resolved.universe);
+      }
+      if (resolved.speed !== undefined) {
+        setSpeed(resolved.speed);
+      }
+      if (resolved.density !== undefined) {
+        setDensity(resolved.density);
+      }
+      if (resolved.seed !== undefined) {
+        setSeed(resolved.seed);
+      }
+      if (resolved.style) {
+        setVisualStyle(resolved.style);
+      }
+    },
+    [adoptRule, allThemes],
+  );
+
+  const queueGrid = useCallback((load: (client: SimulationClient, layout: CellLayout) => void) => {
+    pendingGridRef.current = load;
+    setPendingGridRevision((previous) => previous + 1);
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    const layout = rendererRef.current?.layout;
+    const pending = pendingGridRef.current;
+    if (!client || !layout || !pending) {
+      return;
+    }
+    pendingGridRef.current = null;
+    pending(client, layout);
+  }, [pendingGridRevision]);
+
+  const applySharedSession = useCallback(
+    ({ settings, grid, soup }: SharedSession) => {
+      applySettings(settings);
+      if (soup) {
+        queueGrid((client, layout) => {
+          client.randomize(clamp(soup.density, 0, 1), soup.seed, soup.generation);
+          setPatternMessage(
+            layout.cols === soup.cols && layout.rows === soup.rows
+              ? `Replayed a shared soup to generation ${soup.generation}.`
+              : 'Replayed a shared soup on a different grid size; it will evolve differently.',
+          );
+        });
+      } else if (grid) {
+        queueGrid((client, layout) => {
+          const { cells, species } = sharedGridPlacement(grid, layout.cols, layout.rows);
+          client.load(cells, species);
+        });
+        setPatternMessage('Opened a shared sculpture.');
+      }
+    },
+    [applySettings, queueGrid],
+  );
+
+  useEffect(() => {
+    const session = decodeShareHash(window.location.hash);
+    if (session) {
+      applySharedSession(session);
+    }
+    // Only the link the page was opened with; later changes arrive through `hashchange`.
+  }, []);
+
+  useEffect(() => {
+    const handleHashChange = (): void => {
+      const session = decodeShareHash(window.location.hash);
+      if (session) {
+        applySharedSession(session);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [applySharedSession]);
+
+  const handleCopyLink = useCallback(() => {
+    const snapshot = clientRef.current?.snapshot ?? null;
+    window.history.replaceState(null, '', encodeShareHash(sessionSettings, snapshot));
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => setPatternMessage(`Copied a link to generation ${snapshot?.stats.generation ?? 0}.`))
+      .catch(() => setPatternMessage('Clipboard access was refused; the link is in the address bar.'));
+  }, [sessionSettings]);
+
+  const captureSession = useCallback(async (): Promise<Omit<NewSession, 'name'> | null> => {
+    const app = appRef.current;
+    const snapshot = clientRef.current?.snapshot;
+    if (!app || !snapshot) {
+      return null;
+    }
+    const thumbnail = await captureThumbnail(app, themeRef.current.backdrop);
+    return {
+      thumbnail,
+      settings: sessionSettings,
+      grid: {
+        cols: snapshot.cols,
+        rows: snapshot.rows,
+        ages: snapshot.state,
+        energy: snapshot.energy,
+        stats: snapshot.stats,
+        species: snapshot.species,
+      },
+    };
+  }, [sessionSettings]);
+
+  const snapshotPng = useCallback(async (scale: number): Promise<Capture | null> => {
+    const app = appRef.current;
+    if (!app) {
+      return null;
+    }
+    const generation = clientRef.current?.snapshot?.stats.generation ?? 0;
+    const blob = await capturePng(app, scale, themeRef.current.backdrop);
+    return blob ? { blob, filename: `lumen-generation-${generation}.png` } : null;
+  }, []);
+
+  const getCanvas = useCallback(() => appRef.current?.canvas ?? null, []);
+
+  const renderGifClip = useCallback(
+    async (options: GifClipOptions, onProgress: (fraction: number) => void, signal: AbortSignal): Promise<Capture | null> => {
+      const app = appRef.current;
+      const snapshot = clientRef.current?.snapshot;
+      const layout = rendererRef.current?.layout;
+      if (!app || !snapshot || !layout) {
+        return null;
+      }
+      const blob = await renderGif({
+        ...options,
+        renderer: app.renderer,
+        snapshot,
+        rule: ruleRef.current,
+        boundary: boundaryRef.current,
+        layout,
+        textures: getTextures(themeKeyRef.current),
+        palette: { gradient: gradientRef.current, accentGlow: accentGlowRef.current },
+        scatterSeed: deriveSeed(seedRef.current, 'scatter'),
+        style: visualStyleRef.current,
+        backdrop: themeRef.current.backdrop,
+        stepDuration: stepDurationFor(speedRef.current),
+        onProgress,
+        signal,
+      });
+      const from = snapshot.stats.generation;
+      return { blob, filename: `lumen-generation-${from}-${from + options.generations}.gif` };
+    },
+    [getTextures],
+  );
+
+  const handleOpenSession = useCallback(
+    (session: SessionSummary, grid: GridState) => {
+      applySettings(session.settings);
+      queueGrid((client) => client.restore(grid));
+    },
+    [applySettings, queueGrid],
+  );
+
+  const seedFromRaster = useCallback((source: RasterSource, options: RasterOptions): number | null => {
+    const client = clientRef.current;
+    const snapshot = client?.snapshot;
+    if (!client || !snapshot) {
+      return null;
+    }
+    const { cols, rows } = snapshot;
+    const pitch = LATTICE_PITCH[latticeOf(ruleRef.current.neighborhood)];
+    const grid = rasterSeed(source, cols, rows, options, pitch);
+    client.restore(grid);
+    return grid.stats.alive;
+  }, []);
+
+  const renderSeedText = useCallback((text: string): RasterSource | null => {
+    const snapshot = clientRef.current?.snapshot;
+    if (!snapshot) {
+      return null;
+    }
+    const pitch = LATTICE_PITCH[latticeOf(ruleRef.current.neighborhood)];
+    return renderText(text, snapshot.cols, snapshot.rows, pitch);
+  }, []);
+
+  useEffect(() => {
+    listThemes()
+      .then(setUserThemes)
+      .catch(() => {
+        // user themes are unavailable without IndexedDB; the built-in ones still work
+      });
+  }, []);
+
+  const handleSaveTheme = useCallback(async (key: string | null, definition: ThemeDefinition) => {
+    const stored = await saveTheme(key, definition);
+    setUserThemes((previous) =>
+      previous.some((entry) => entry.key === stored.key)
+        ? previous.map((entry) => (entry.key === stored.key ? stored : entry))
+        : [...previous, stored],
+    );
+    setThemeKey(stored.key);
+  }, []);
+
+  const handleDeleteTheme = useCallback(async (key: string) => {
+    await deleteTheme(key);
+    setUserThemes((previous) => previous.filter((entry) => entry.key !== key));
+    setThemeKey((previous) => (previous === key ? 'aurora' : previous));
+  }, []);
+
+  const handleUniverseChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setUniverseKey(event.target.value);
+  }, []);
+
+  const handleResizePolicyChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setResizePolicy(event.target.value as ResizePolicy);
+  }, []);
+
+  const handleFitUniverse = useCallback(() => {
+    const app = appRef.current;
+    const layout = rendererRef.current?.layout;
+    if (!app || !layout) {
+      return;
+    }
+    cameraRef.current.fit(worldBounds(layout), app.screen);
+    syncCameraRef.current?.();
+  }, []);
+
+  const handleFitContent = useCallback(() => {
+    const app = appRef.current;
+    const layout = rendererRef.current?.layout;
+    const snapshot = clientRef.current?.snapshot;
+    if (!app || !layout || !snapshot) {
+      return;
+    }
+    const bounds = findLiveBounds(snapshot.state, snapshot.cols, snapshot.rows);
+    if (!bounds) {
+      handleFitUniverse();
+      return;
+    }
+    const rect = cellRangeBounds(layout, bounds.minX, bounds.minY, bounds.maxX, bounds.maxY);
+    cameraRef.current.fit(rect, app.screen, FIT_PADDING);
+    syncCameraRef.current?.();
+  }, [handleFitUniverse]);
+
+  const handleMinimapPointer = useCallback((event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const app = appRef.current;
+    const world = minimapWorldRef.current;
+    if (!app || !world || (event.type === 'pointermove' && event.buttons === 0)) {
+      return;
+    }
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const worldX = world.x + ((event.clientX - bounds.left) / bounds.width) * world.width;
+    const worldY = world.y + ((event.clientY - bounds.top) / bounds.height) * world.height;
+    cameraRef.current.centerOn(worldX, worldY, app.screen);
+    syncCameraRef.current?.();
+  }, []);
+
+  const handleGrainChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setGrainKey(event.target.value);
+  }, []);
+
+  const handleBoundaryChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setBoundary(event.target.value as BoundaryMode);
+  }, []);
+
+  const chartColors = useMemo(
+    () => ({
+      alive: activeTheme.accent,
+      births: activeTheme.accentSoft,
+      fades: '#ff9aa7',
+      ratio: activeTheme.accentGlow,
+      grid: 'rgba(255, 255, 255, 0.08)',
+    }),
+    [activeTheme],
+  );
+
+  const theme = activeTheme;
+  const speciesSwatches = speciesPopulation
+    ? speciesColors(theme.gradient.map(hexToNumber), speciesPopulation.length).map(numberToHex)
+    : [];
+  const currentRule = allRules[ruleKey] ?? RULES.classic;
+  const currentBoundary = BOUNDARIES[boundary];
+  const parsedDraft = parseRulestring(ruleDraft);
+  const draftRange = parsedDraft.ok ? parsedDraft.rule.range : currentRule.range ?? 1;
+  const draftNeighborhood = parsedDraft.ok ? parsedDraft.rule.neighborhood : currentRule.neighborhood ?? 'moore';
   const aliveRatio = totalCells > 0 ? stats.alive / totalCells : 0;
 
   return (
-    <div className="app-shell" style={{ backgroundImage: theme.background }}>
+    <div
+      className="app-shell"
+      style={{ backgroundImage: theme.background }}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       <div className="app-shell__atmosphere" />
       <div className="app-shell__aurora" />
       <div className="app-shell__grain" />
@@ -833,6 +1535,28 @@ const App = (): JSX.Element => {
             <span className="hud__stat-label">Fade</span>
             <span className="hud__stat-value">{stats.fades.toLocaleString()}</span>
           </div>
+          {speciesPopulation && (
+            <div className="hud__species">
+              {speciesPopulation.map((count, species) => (
+                <button
+                  // Species are fixed slots, identified by position.
+                  key={species}
+                  type="button"
+                  className="hud__species-entry"
+                  aria-pressed={paintSpecies % speciesPopulation.length === species}
+                  title={`Draw species ${species + 1}`}
+                  onClick={() => setPaintSpecies(species)}
+                >
+                  <span className="hud__species-swatch" style={{ background: speciesSwatches[species] }} />
+                  <span className="hud__stat-value">{count.toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className={`hud__status hud__status--${stability.kind}`}>
+            <span className="hud__stat-label">State</span>
+            <span className="hud__status-value">{describeStability(stability)}</span>
+          </div>
           <div className="hud__progress">
             <div className="hud__progress-indicator" style={{ width: `${Math.min(100, aliveRatio * 100)}%` }} />
           </div>
@@ -855,7 +1579,147 @@ const App = (): JSX.Element => {
               Clear Canvas
             </button>
           </div>
-          <div className="control-panel__row">
+          <div className="control-panel__row control-panel__row--timeline">
+            <button
+              type="button"
+              className="control-panel__button"
+              onClick={handleStepBack}
+              disabled={!timeline || timeline.position <= 0}
+            >
+              Step Back
+            </button>
+            <button
+              type="button"
+              className="control-panel__button"
+              onClick={handleUndo}
+              disabled={!timeline?.canUndo}
+              title="Ctrl+Z"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              className="control-panel__button"
+              onClick={handleRedo}
+              disabled={!timeline?.canRedo}
+              title="Ctrl+Shift+Z"
+            >
+              Redo
+            </button>
+            <label className="control-panel__field">
+              <span>
+                Timeline · gen {timeline ? `${timeline.firstGeneration}–${timeline.lastGeneration}` : '0'}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={Math.max(0, (timeline?.length ?? 1) - 1)}
+                step={1}
+                value={Math.max(0, timeline?.position ?? 0)}
+                onChange={handleScrub}
+                disabled={!timeline || timeline.length < 2}
+              />
+            </label>
+            <label className="control-panel__field">
+              <span>History · {timeline ? formatBytes(timeline.bytes) : '0 B'}</span>
+              <select value={historyBudget} onChange={handleHistoryBudgetChange}>
+                {historyBudgetOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="control-panel__row control-panel__row--tools">
+            <div className="control-panel__tools" role="group" aria-label="Canvas tool">
+              {Object.values(TOOLS).map((option) => (
+                <button
+                  key={option.key}
+                  type="button"
+                  className="control-panel__tool"
+                  aria-pressed={tool === option.key}
+                  onClick={() => setTool(option.key)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <label className="control-panel__field">
+              <span>Brush · {brushSize}</span>
+              <input
+                type="range"
+                min={1}
+                max={MAX_BRUSH_SIZE}
+                step={1}
+                value={brushSize}
+                onChange={handleBrushSizeChange}
+                disabled={tool === 'pan' || tool === 'stamp'}
+              />
+            </label>
+            <label className="control-panel__field">
+              <span>Brush Shape</span>
+              <select value={brushShape} onChange={handleBrushShapeChange} disabled={tool === 'pan' || tool === 'stamp'}>
+                {brushShapeOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="control-panel__row control-panel__row--library">
+            <label className="control-panel__field">
+              <span>Pattern Library</span>
+              <select value={libraryKey} onChange={handleLibraryChange}>
+                {LIBRARY_GROUPS.map((group) => (
+                  <optgroup key={group.ruleKey} label={group.label}>
+                    {group.patterns.map((entry) => (
+                      <option key={entry.key} value={entry.key}>
+                        {entry.pattern.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+            <button type="button" className="control-panel__button" onClick={handleRotate} title="R · Shift+R reverses">
+              Rotate
+            </button>
+            <button type="button" className="control-panel__button" onClick={handleFlip} title="F · V flips vertically">
+              Flip
+            </button>
+            <p className="control-panel__status">
+              {libraryEntry
+                ? `${libraryEntry.description} Click the canvas to stamp; R rotates, F and V flip, Esc returns to drawing.`
+                : 'No library patterns found.'}
+            </p>
+          </div>
+          <div className="control-panel__row control-panel__row--pattern">
+            <button type="button" className="control-panel__button" onClick={handleImportClick}>
+              Import Pattern
+            </button>
+            <button type="button" className="control-panel__button" onClick={handleCopyRle}>
+              Copy RLE
+            </button>
+            <button type="button" className="control-panel__button" onClick={handleDownloadRle}>
+              Download RLE
+            </button>
+            <button type="button" className="control-panel__button" onClick={handleCopyLink}>
+              Copy Link
+            </button>
+            <input
+              ref={patternInputRef}
+              type="file"
+              accept=".rle,.cells,.txt,text/plain"
+              className="control-panel__file"
+              onChange={handlePatternFileChange}
+            />
+            <p className="control-panel__status">
+              {patternMessage ?? 'Drop or paste an .rle or .cells pattern anywhere to load it.'}
+            </p>
+          </div>
+          <div className="control-panel__row control-panel__row--metrics">
             <label className="control-panel__field">
               <span>Tempo</span>
               <input
@@ -878,16 +1742,84 @@ const App = (): JSX.Element => {
                 onChange={handleDensityChange}
               />
             </label>
+            <form className="control-panel__field" onSubmit={handleSeedSubmit}>
+              <span>Seed</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedDraft}
+                onChange={handleSeedDraftChange}
+                spellCheck={false}
+                aria-invalid={seedError}
+                title="Press Enter to reseed with this number"
+              />
+            </form>
             <div className="control-panel__field control-panel__field--info">
               <span>Occupancy</span>
               <strong>{formatPercent(aliveRatio)}</strong>
             </div>
+            <div className="control-panel__field control-panel__field--info">
+              <span>Cadence</span>
+              <strong>{generationsPerSecond.toFixed(1)} gen/s</strong>
+            </div>
+            <label className="control-panel__field">
+              <span>When Settled</span>
+              <select value={settlePolicy} onChange={handleSettlePolicyChange}>
+                {settlePolicyOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
           <div className="control-panel__row control-panel__row--selects">
             <label className="control-panel__field">
               <span>Chromatic Theme</span>
               <select value={themeKey} onChange={handleThemeChange}>
-                {themeOptions.map((option) => (
+                <optgroup label="Built-in">
+                  {themeOptions.map((option) => (
+                    <option key={option.key} value={option.key}>
+                      {option.label}
+                    </option>
+                  ))}
+                </optgroup>
+                {userThemeOptions.length > 0 && (
+                  <optgroup label="Custom">
+                    {userThemeOptions.map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </label>
+            <label className="control-panel__field">
+              <span>Rule Symphony</span>
+              <select value={ruleKey} onChange={handleRuleChange}>
+                <optgroup label="Built-in">
+                  {ruleOptions.map((option) => (
+                    <option key={option.key} value={option.key}>
+                      {option.label}
+                    </option>
+                  ))}
+                </optgroup>
+                {customRuleOptions.length > 0 && (
+                  <optgroup label="Custom">
+                    {customRuleOptions.map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </label>
+            <label className="control-panel__field">
+              <span>Boundary</span>
+              <select value={boundary} onChange={handleBoundaryChange}>
+                {boundaryOptions.map((option) => (
                   <option key={option.key} value={option.key}>
                     {option.label}
                   </option>
@@ -895,9 +1827,9 @@ const App = (): JSX.Element => {
               </select>
             </label>
             <label className="control-panel__field">
-              <span>Rule Symphony</span>
-              <select value={ruleKey} onChange={handleRuleChange}>
-                {ruleOptions.map((option) => (
+              <span>Grain</span>
+              <select value={grainKey} onChange={handleGrainChange}>
+                {grainOptions.map((option) => (
                   <option key={option.key} value={option.key}>
                     {option.label}
                   </option>
@@ -907,9 +1839,111 @@ const App = (): JSX.Element => {
             <div className="control-panel__field control-panel__field--info">
               <span>Current Motif</span>
               <p>{currentRule.description}</p>
+              <p className="control-panel__boundary" title={currentBoundary.description}>
+                Edges · {currentBoundary.label}
+              </p>
             </div>
           </div>
+          <form className="control-panel__row control-panel__row--rule" onSubmit={handleRuleSubmit}>
+            <label className="control-panel__field">
+              <span>Rulestring</span>
+              <input
+                type="text"
+                value={ruleDraft}
+                onChange={handleRuleDraftChange}
+                placeholder="B36/S23 · 23/3 · B2/S/G3 · R5,C0,M1,S34..58,B34..45,NM"
+                spellCheck={false}
+                aria-invalid={ruleError !== null}
+              />
+            </label>
+            <label className="control-panel__field">
+              <span>Range</span>
+              <input type="number" min={1} max={MAX_RANGE} step={1} value={draftRange} onChange={handleRangeChange} />
+            </label>
+            <label className="control-panel__field">
+              <span>Neighbourhood</span>
+              <select value={draftNeighborhood} onChange={handleNeighborhoodChange}>
+                {neighborhoodOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" className="control-panel__button">
+              Compose Rule
+            </button>
+            {ruleError && <p className="control-panel__error">{ruleError}</p>}
+          </form>
+        </div>
+      </div>
+
+      <div className="camera-dock">
+        <canvas
+          ref={minimapRef}
+          className="camera-dock__minimap"
+          width={MINIMAP_WIDTH}
+          height={112}
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+        />
+        <div className="camera-dock__row">
+          <span className="camera-dock__zoom">{Math.round(zoomLevel * 100)}%</span>
+          <button type="button" className="camera-dock__button" onClick={handleFitContent}>
+            Fit Colony
+          </button>
+          <button type="button" className="camera-dock__button" onClick={handleFitUniverse}>
+            Fit Universe
+          </button>
         </div>
+        <label className="control-panel__field">
+          <span>Universe</span>
+          <select value={universeKey} onChange={handleUniverseChange}>
+            {universeOptions.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="control-panel__field">
+          <span>On Resize</span>
+          <select
+            value={resizePolicy}
+            onChange={handleResizePolicyChange}
+            disabled={Boolean(UNIVERSES[universeKey].cols)}
+          >
+            {resizePolicyOptions.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="side-panels">
+        <SessionsPanel capture={captureSession} onOpen={handleOpenSession} />
+        <SeedPanel onSeed={seedFromRaster} renderText={renderSeedText} />
+        <CapturePanel snapshotPng={snapshotPng} getCanvas={getCanvas} renderGif={renderGifClip} />
+        <StylePanel style={visualStyle} onChange={setVisualStyle} />
+        <ThemeEditor
+          themeKey={themeKey}
+          themes={allThemes}
+          isUserTheme={isUserTheme}
+          onPreview={setPreviewTheme}
+          onSave={handleSaveTheme}
+          onDelete={handleDeleteTheme}
+        />
+        <CensusPanel
+          getSnapshot={getSnapshot}
+          rule={currentRule}
+          boundary={boundary}
+          catalogue={currentRule.rulestring === RULES.classic.rulestring ? LIFE_CATALOGUE : null}
+          onHighlight={setHighlightRegions}
+          lattice={latticeOf(currentRule.neighborhood)}
+        />
+        <AnalyticsPanel series={seriesRef.current} revision={seriesRef.current.revision} colors={chartColors} />
       </div>
 
       <div className="legend">
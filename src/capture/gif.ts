@@ -0,0 +1,246 @@
+/** Colours per frame; GIF allows at most 256. */
+const PALETTE_SIZE = 256;
+
+/** Colours are binned to 5 bits a channel before quantising, which keeps the histogram small. */
+const BIN_BITS = 5;
+const BIN_COUNT = 1 << (BIN_BITS * 3);
+
+const MAX_CODE = 4095;
+
+interface ColorBox {
+  bins: number[];
+  count: number;
+}
+
+const binOf = (r: number, g: number, b: number): number =>
+  ((r >> (8 - BIN_BITS)) << (BIN_BITS * 2)) | ((g >> (8 - BIN_BITS)) << BIN_BITS) | (b >> (8 - BIN_BITS));
+
+const channel = (bin: number, axis: number): number => (bin >> (BIN_BITS * (2 - axis))) & ((1 << BIN_BITS) - 1);
+
+/**
+ * Median cut over a binned histogram: repeatedly splits the box with the most pixels times
+ * widest channel span at its weighted median. Returns the palette and each bin's entry.
+ */
+const quantize = (rgba: Uint8ClampedArray): { palette: Uint8Array; lookup: Uint8Array } => {
+  const counts = new Uint32Array(BIN_COUNT);
+  const sums = new Float64Array(BIN_COUNT * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bin = binOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    counts[bin] += 1;
+    sums[bin * 3] += rgba[i];
+    sums[bin * 3 + 1] += rgba[i + 1];
+    sums[bin * 3 + 2] += rgba[i + 2];
+  }
+  const used: number[] = [];
+  let total = 0;
+  for (let bin = 0; bin < BIN_COUNT; bin += 1) {
+    if (counts[bin] > 0) {
+      used.push(bin);
+      total += counts[bin];
+    }
+  }
+
+  const span = (box: ColorBox): { axis: number; range: number } => {
+    let best = { axis: 0, range: 0 };
+    for (let axis = 0; axis < 3; axis += 1) {
+      let min = Infinity;
+      let max = -Infinity;
+      box.bins.forEach((bin) => {
+        const value = channel(bin, axis);
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      });
+      if (max - min > best.range) {
+        best = { axis, range: max - min };
+      }
+    }
+    return best;
+  };
+
+  const boxes: ColorBox[] = [{ bins: used, count: total }];
+  while (boxes.length < PALETTE_SIZE) {
+    let target = -1;
+    let targetScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.bins.length > 1 ? box.count * span(box).range : 0;
+      if (score > targetScore) {
+        target = index;
+        targetScore = score;
+      }
+    });
+    if (target < 0) {
+      break;
+    }
+    const box = boxes[target];
+    const { axis } = span(box);
+    box.bins.sort((a, b) => channel(a, axis) - channel(b, axis));
+    let running = 0;
+    let cut = 1;
+    for (; cut < box.bins.length - 1; cut += 1) {
+      running += counts[box.bins[cut - 1]];
+      if (running >= box.count / 2) {
+        break;
+      }
+    }
+    const lower = box.bins.slice(0, cut);
+    const upper = box.bins.slice(cut);
+    const lowerCount = lower.reduce((sum, bin) => sum + counts[bin], 0);
+    boxes.splice(target, 1, { bins: lower, count: lowerCount }, { bins: upper, count: box.count - lowerCount });
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const lookup = new Uint8Array(BIN_COUNT);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    box.bins.forEach((bin) => {
+      r += sums[bin * 3];
+      g += sums[bin * 3 + 1];
+      b += sums[bin * 3 + 2];
+      lookup[bin] = index;
+    });
+    const count = Math.max(1, box.count);
+    palette[index * 3] = Math.round(r / count);
+    palette[index * 3 + 1] = Math.round(g / count);
+    palette[index * 3 + 2] = Math.round(b / count);
+  });
+  return { palette, lookup };
+};
+
+/** Variable-width LZW as GIF expects it, packed least significant bit first. */
+const compress = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Keyed by prefix code and next byte; holds code + 1 so zero can mean empty.
+  const table = new Uint16Array((MAX_CODE + 1) << 8);
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const emit = (code: number): void => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i += 1) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = table[key];
+    if (existing > 0) {
+      prefix = existing - 1;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      table[key] = nextCode + 1;
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize += 1;
+      }
+      nextCode += 1;
+    } else {
+      emit(clearCode);
+      table.fill(0);
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) {
+    output.push(buffer & 0xff);
+  }
+  return Uint8Array.from(output);
+};
+
+const word = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Streams an animated, looping GIF89a one RGBA frame at a time. Each frame carries its own
+ * median-cut palette, so colour drifts across a long clip stay faithful.
+ */
+export class GifEncoder {
+  private readonly chunks: Uint8Array<ArrayBuffer>[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    this.chunks.push(
+      Uint8Array.from([
+        ...[...'GIF89a'].map((char) => char.charCodeAt(0)),
+        ...word(width),
+        ...word(height),
+        0x00,
+        0x00,
+        0x00,
+        // NETSCAPE2.0 application extension: loop forever.
+        0x21,
+        0xff,
+        0x0b,
+        ...[...'NETSCAPE2.0'].map((char) => char.charCodeAt(0)),
+        0x03,
+        0x01,
+        0x00,
+        0x00,
+        0x00,
+      ]),
+    );
+  }
+
+  /** Appends a frame shown for `delay` milliseconds, rounded to GIF's hundredths. */
+  addFrame(rgba: Uint8ClampedArray, delay: number): void {
+    const { palette, lookup } = quantize(rgba);
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0; i < indices.length; i += 1) {
+      const offset = i * 4;
+      indices[i] = lookup[binOf(rgba[offset], rgba[offset + 1], rgba[offset + 2])];
+    }
+    const data = compress(indices, 8);
+
+    const header = [
+      0x21,
+      0xf9,
+      0x04,
+      0x00,
+      ...word(Math.max(2, Math.round(delay / 10))),
+      0x00,
+      0x00,
+      0x2c,
+      ...word(0),
+      ...word(0),
+      ...word(this.width),
+      ...word(this.height),
+      // Local colour table of 2^(7 + 1) entries.
+      0x87,
+    ];
+    const blocks = new Uint8Array(header.length + palette.length + 1 + data.length + Math.ceil(data.length / 255) + 1);
+    blocks.set(header, 0);
+    blocks.set(palette, header.length);
+    let offset = header.length + palette.length;
+    blocks[offset] = 8;
+    offset += 1;
+    for (let start = 0; start < data.length; start += 255) {
+      const block = data.subarray(start, start + 255);
+      blocks[offset] = block.length;
+      blocks.set(block, offset + 1);
+      offset += block.length + 1;
+    }
+    blocks[offset] = 0x00;
+    this.chunks.push(blocks);
+  }
+
+  finish(): Blob {
+    return new Blob([...this.chunks, Uint8Array.from([0x3b])], { type: 'image/gif' });
+  }
+}
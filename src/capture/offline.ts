@@ -0,0 +1,101 @@
+import { Rectangle, type Renderer } from 'pixi.js';
+import { CellRenderer, type RenderPalette } from '../render/cellRenderer';
+import { type CellLayout, worldBounds } from '../render/layout';
+import type { CellTextures } from '../render/textures';
+import type { VisualStyle } from '../render/visualStyle';
+import { type EngineRule, LifeEngine } from '../simulation/engine';
+import type { SimulationSnapshot } from '../simulation/protocol';
+import type { BoundaryMode } from '../simulation/topology';
+import { GifEncoder } from './gif';
+
+export interface GifClipOptions {
+  generations: number;
+  frameRate: number;
+  /** Output width in pixels; height follows the grid's aspect ratio. */
+  width: number;
+}
+
+export interface OfflineRenderOptions extends GifClipOptions {
+  renderer: Renderer;
+  snapshot: SimulationSnapshot;
+  rule: EngineRule;
+  boundary: BoundaryMode;
+  layout: CellLayout;
+  textures: CellTextures;
+  palette: RenderPalette;
+  scatterSeed: number;
+  style: VisualStyle;
+  /** Solid colour behind the cells; GIF has no partial transparency. */
+  backdrop: string;
+  /** How long each generation lasts in the clip, as the tempo slider sets it live. */
+  stepDuration: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Frames drawn before capture so cells have eased in from the blank first frame. */
+const WARMUP_FRAMES = 60;
+
+const nextTask = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Renders the next `generations` generations into an animated GIF without touching the live
+ * simulation. A private engine replays the rule from the snapshot and a private cell renderer
+ * is advanced by a fixed frame time, so the clip plays at `frameRate` however slowly it renders.
+ */
+export const renderGif = async (options: OfflineRenderOptions): Promise<Blob> => {
+  const { renderer, snapshot, layout, palette, frameRate, signal } = options;
+  const engine = new LifeEngine(snapshot.cols, snapshot.rows, options.rule, options.boundary);
+  engine.energyRetention = options.style.energyRetention;
+  engine.restore(snapshot.state, snapshot.energy, snapshot.stats, snapshot.species);
+
+  const cells = new CellRenderer(options.textures, options.scatterSeed);
+  cells.setStyle(options.style);
+  cells.setLayout(layout);
+  const world = worldBounds(layout);
+  const frame = new Rectangle(world.x, world.y, world.width, world.height);
+  const resolution = options.width / world.width;
+  const frameDuration = 1000 / frameRate;
+  const framesPerGeneration = Math.max(1, Math.round(options.stepDuration / frameDuration));
+  const current = (): SimulationSnapshot => ({
+    ...snapshot,
+    state: engine.state,
+    energy: engine.energy,
+    species: engine.species,
+    speciesCount: engine.speciesCount,
+    decayLength: engine.decayLength,
+    stats: engine.stats,
+  });
+
+  let time = 0;
+  let encoder: GifEncoder | null = null;
+  try {
+    for (let i = 0; i < WARMUP_FRAMES; i += 1) {
+      cells.update(current(), time, null, palette);
+      time += frameDuration;
+    }
+    for (let generation = 0; generation < options.generations; generation += 1) {
+      for (let i = 0; i < framesPerGeneration; i += 1) {
+        cells.update(current(), time, null, palette);
+        const { pixels, width, height } = renderer.extract.pixels({
+          target: cells.view,
+          frame,
+          resolution,
+          clearColor: options.backdrop,
+        });
+        encoder ??= new GifEncoder(width, height);
+        encoder.addFrame(pixels, frameDuration);
+        time += frameDuration;
+      }
+      engine.step();
+      options.onProgress?.((generation + 1) / options.generations);
+      await nextTask();
+      if (signal?.aborted) {
+        throw new DOMException('GIF export cancelled.', 'AbortError');
+      }
+    }
+  } finally {
+    cells.destroy();
+  }
+  return (encoder ?? new GifEncoder(1, 1)).finish();
+};
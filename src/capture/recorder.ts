@@ -0,0 +1,38 @@
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+export const canRecordVideo = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/** Records a canvas to WebM in real time, as it is drawn on screen. */
+export class CanvasRecorder {
+  private readonly recorder: MediaRecorder;
+
+  private readonly stream: MediaStream;
+
+  private readonly chunks: Blob[] = [];
+
+  constructor(canvas: HTMLCanvasElement, frameRate: number) {
+    this.stream = canvas.captureStream(frameRate);
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    this.recorder.start(1000);
+  }
+
+  /** Ends the recording and resolves with the finished video. */
+  stop(): Promise<Blob> {
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        this.stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this.chunks, { type: this.recorder.mimeType || 'video/webm' }));
+      };
+      this.recorder.stop();
+    });
+  }
+}
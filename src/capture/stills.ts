@@ -0,0 +1,29 @@
+import type { Application } from 'pixi.js';
+
+/** Longest edge of a PNG capture, within what GPUs allow for a render texture. */
+const MAX_CAPTURE_EDGE = 8192;
+
+const THUMBNAIL_WIDTH = 160;
+
+/** Renders the stage at `scale` times its on-screen size as a PNG over `backdrop`. */
+export const capturePng = async (app: Application, scale: number, backdrop: string): Promise<Blob | null> => {
+  const { width, height } = app.screen;
+  const canvas = app.renderer.extract.canvas({
+    target: app.stage,
+    frame: app.screen,
+    resolution: Math.min(scale, MAX_CAPTURE_EDGE / Math.max(width, height)),
+    clearColor: backdrop,
+  }) as HTMLCanvasElement;
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+};
+
+/** A small WebP data URL of the stage, for listing saved sessions. */
+export const captureThumbnail = (app: Application, backdrop: string): Promise<string> =>
+  app.renderer.extract.base64({
+    target: app.stage,
+    frame: app.screen,
+    resolution: THUMBNAIL_WIDTH / app.screen.width,
+    clearColor: backdrop,
+    format: 'webp',
+    quality: 0.8,
+  });
@@ -0,0 +1,169 @@
+import {
+  type ChangeEvent,
+  type PointerEvent as ReactPointerEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { type ChartColors, drawChart } from '../render/chart';
+import { type StatsSample, type StatsSeries, seriesToCsv } from '../simulation/series';
+import { downloadBlob } from '../utils/download';
+
+interface AnalyticsPanelProps {
+  series: StatsSeries;
+  /** The series' revision at render time; a change triggers a redraw. */
+  revision: number;
+  colors: ChartColors;
+}
+
+const WINDOWS: Record<string, { key: string; label: string; generations: number }> = {
+  short: { key: 'short', label: '250 gens', generations: 250 },
+  medium: { key: 'medium', label: '1,000 gens', generations: 1000 },
+  long: { key: 'long', label: '5,000 gens', generations: 5000 },
+};
+
+const formatRatio = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Collapsible chart of population, births, fades and occupancy over a sliding window of
+ * generations. Hovering freezes the plot so a single generation can be read off.
+ */
+const AnalyticsPanel = ({ series, revision, colors }: AnalyticsPanelProps): JSX.Element => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [open, setOpen] = useState(false);
+  const [logScale, setLogScale] = useState(false);
+  const [windowKey, setWindowKey] = useState('medium');
+  const [frozen, setFrozen] = useState<StatsSample[] | null>(null);
+  const [highlight, setHighlight] = useState<number | null>(null);
+
+  const windowOptions = useMemo(
+    () =>
+      Object.values(WINDOWS).map((option) => ({
+        key: option.key,
+        label: option.label,
+      })),
+    [],
+  );
+
+  // `revision` stands in for the series contents, which are mutated in place.
+  const visible = useMemo(() => {
+    if (frozen) {
+      return frozen;
+    }
+    const { generations } = WINDOWS[windowKey];
+    const { samples } = series;
+    return samples.slice(Math.max(0, samples.length - generations));
+  }, [series, revision, windowKey, frozen]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!open || !canvas) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(canvas.clientWidth * ratio);
+    const height = Math.round(canvas.clientHeight * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    drawChart(canvas, visible, { logScale, highlight, colors });
+  }, [open, visible, logScale, highlight, colors]);
+
+  const handlePointerMove = useCallback(
+    (event: ReactPointerEvent<HTMLCanvasElement>) => {
+      const data = frozen ?? visible;
+      if (!frozen) {
+        setFrozen(visible);
+      }
+      if (data.length === 0) {
+        setHighlight(null);
+        return;
+      }
+      const bounds = event.currentTarget.getBoundingClientRect();
+      const fraction = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+      setHighlight(Math.round(fraction * (data.length - 1)));
+    },
+    [frozen, visible],
+  );
+
+  const handlePointerLeave = useCallback(() => {
+    setFrozen(null);
+    setHighlight(null);
+  }, []);
+
+  const handleWindowChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+    setWindowKey(event.target.value);
+  }, []);
+
+  const handleExport = useCallback(() => {
+    downloadBlob(new Blob([seriesToCsv(series.samples)], { type: 'text/csv' }), 'lumen-population.csv');
+  }, [series]);
+
+  const inspected = highlight !== null ? visible[highlight] : visible[visible.length - 1];
+
+  return (
+    <section className={`analytics${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Analytics
+      </button>
+      {open && (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="analytics__chart"
+            onPointerMove={handlePointerMove}
+            onPointerLeave={handlePointerLeave}
+          />
+          <dl className="analytics__readout">
+            <div>
+              <dt>Gen</dt>
+              <dd>{inspected ? inspected.generation.toLocaleString() : '–'}</dd>
+            </div>
+            <div style={{ color: colors.alive }}>
+              <dt>Alive</dt>
+              <dd>{inspected ? inspected.alive.toLocaleString() : '–'}</dd>
+            </div>
+            <div style={{ color: colors.births }}>
+              <dt>Births</dt>
+              <dd>{inspected ? inspected.births.toLocaleString() : '–'}</dd>
+            </div>
+            <div style={{ color: colors.fades }}>
+              <dt>Fades</dt>
+              <dd>{inspected ? inspected.fades.toLocaleString() : '–'}</dd>
+            </div>
+            <div style={{ color: colors.ratio }}>
+              <dt>Ratio</dt>
+              <dd>{inspected ? formatRatio(inspected.ratio) : '–'}</dd>
+            </div>
+          </dl>
+          <div className="analytics__controls">
+            <label className="analytics__check">
+              <input type="checkbox" checked={logScale} onChange={(event) => setLogScale(event.target.checked)} />
+              <span>Log scale</span>
+            </label>
+            <select value={windowKey} onChange={handleWindowChange}>
+              {windowOptions.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="analytics__export" onClick={handleExport}>
+              Export CSV
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,217 @@
+import { type ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import type { GifClipOptions } from '../capture/offline';
+import { CanvasRecorder, canRecordVideo } from '../capture/recorder';
+import { downloadBlob } from '../utils/download';
+
+export interface Capture {
+  blob: Blob;
+  filename: string;
+}
+
+interface CapturePanelProps {
+  /** Renders the current view at `scale` times screen resolution. */
+  snapshotPng: (scale: number) => Promise<Capture | null>;
+  getCanvas: () => HTMLCanvasElement | null;
+  renderGif: (
+    options: GifClipOptions,
+    onProgress: (fraction: number) => void,
+    signal: AbortSignal,
+  ) => Promise<Capture | null>;
+}
+
+const SCALES: Record<string, { key: string; label: string; scale: number }> = {
+  screen: { key: 'screen', label: 'Screen', scale: 1 },
+  double: { key: 'double', label: '2× screen', scale: 2 },
+  print: { key: 'print', label: '4× screen', scale: 4 },
+};
+
+const GIF_LENGTHS = [30, 60, 120, 240];
+
+const GIF_FRAME_RATES = [10, 20, 25];
+
+const GIF_WIDTHS = [480, 720, 960];
+
+const VIDEO_FRAME_RATE = 60;
+
+const formatElapsed = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Collapsible capture controls: PNG stills at a chosen resolution, live WebM recording of the
+ * canvas, and GIF clips of upcoming generations rendered offline at a fixed frame rate.
+ */
+const CapturePanel = ({ snapshotPng, getCanvas, renderGif }: CapturePanelProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [scaleKey, setScaleKey] = useState('double');
+  const [gifOptions, setGifOptions] = useState<GifClipOptions>({ generations: 60, frameRate: 20, width: 480 });
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const gifAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (recordingSince === null) {
+      return undefined;
+    }
+    const timer = setInterval(() => setElapsed(Math.floor((performance.now() - recordingSince) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [recordingSince]);
+
+  useEffect(
+    () => () => {
+      recorderRef.current?.stop();
+      gifAbortRef.current?.abort();
+    },
+    [],
+  );
+
+  const handleSnapshot = useCallback(() => {
+    snapshotPng(SCALES[scaleKey].scale)
+      .then((capture) => {
+        if (capture) {
+          downloadBlob(capture.blob, capture.filename);
+          setMessage(`Saved ${capture.filename}.`);
+        }
+      })
+      .catch(() => setMessage('The snapshot could not be rendered.'));
+  }, [snapshotPng, scaleKey]);
+
+  const handleRecord = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorderRef.current = null;
+      setRecordingSince(null);
+      recorder
+        .stop()
+        .then((blob) => {
+          const filename = `lumen-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.webm`;
+          downloadBlob(blob, filename);
+          setMessage(`Saved ${filename}.`);
+        })
+        .catch(() => setMessage('The recording could not be saved.'));
+      return;
+    }
+    const canvas = getCanvas();
+    if (!canvas) {
+      return;
+    }
+    try {
+      recorderRef.current = new CanvasRecorder(canvas, VIDEO_FRAME_RATE);
+      setElapsed(0);
+      setRecordingSince(performance.now());
+      setMessage(null);
+    } catch {
+      setMessage('This browser cannot record the canvas.');
+    }
+  }, [getCanvas]);
+
+  const handleGif = useCallback(() => {
+    if (gifAbortRef.current) {
+      gifAbortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    gifAbortRef.current = controller;
+    setGifProgress(0);
+    setMessage(null);
+    renderGif(gifOptions, setGifProgress, controller.signal)
+      .then((capture) => {
+        if (capture) {
+          downloadBlob(capture.blob, capture.filename);
+          setMessage(`Saved ${capture.filename}.`);
+        }
+      })
+      .catch((error: unknown) => {
+        setMessage(
+          error instanceof DOMException && error.name === 'AbortError'
+            ? 'GIF export cancelled.'
+            : 'The GIF could not be rendered.',
+        );
+      })
+      .finally(() => {
+        gifAbortRef.current = null;
+        setGifProgress(null);
+      });
+  }, [renderGif, gifOptions]);
+
+  const updateGif = useCallback(
+    (key: keyof GifClipOptions) => (event: ChangeEvent<HTMLSelectElement>) => {
+      const value = Number(event.target.value);
+      setGifOptions((previous) => ({ ...previous, [key]: value }));
+    },
+    [],
+  );
+
+  return (
+    <section className={`analytics capture${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Capture
+      </button>
+      {open && (
+        <>
+          <div className="analytics__controls">
+            <span>Still</span>
+            <select value={scaleKey} onChange={(event) => setScaleKey(event.target.value)} aria-label="PNG resolution">
+              {Object.values(SCALES).map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="analytics__export" onClick={handleSnapshot}>
+              Save PNG
+            </button>
+          </div>
+          <div className="analytics__controls">
+            <span>Video{recordingSince !== null ? ` · ${formatElapsed(elapsed)}` : ''}</span>
+            <button
+              type="button"
+              className="analytics__export"
+              onClick={handleRecord}
+              disabled={!canRecordVideo()}
+              aria-pressed={recordingSince !== null}
+            >
+              {recordingSince !== null ? 'Stop & Save' : 'Record WebM'}
+            </button>
+          </div>
+          <div className="analytics__controls">
+            <select value={gifOptions.generations} onChange={updateGif('generations')} aria-label="GIF length">
+              {GIF_LENGTHS.map((length) => (
+                <option key={length} value={length}>
+                  {length} gens
+                </option>
+              ))}
+            </select>
+            <select value={gifOptions.frameRate} onChange={updateGif('frameRate')} aria-label="GIF frame rate">
+              {GIF_FRAME_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate} fps
+                </option>
+              ))}
+            </select>
+            <select value={gifOptions.width} onChange={updateGif('width')} aria-label="GIF width">
+              {GIF_WIDTHS.map((width) => (
+                <option key={width} value={width}>
+                  {width} px
+                </option>
+              ))}
+            </select>
+            <button type="button" className="analytics__export" onClick={handleGif}>
+              {gifProgress !== null ? `Cancel · ${Math.round(gifProgress * 100)}%` : 'Export GIF'}
+            </button>
+          </div>
+          {message && <p className="census__note">{message}</p>}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CapturePanel;
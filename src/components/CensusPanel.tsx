@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { type CensusEntry, type KnownObject, type ObjectCategory, takeCensus } from '../simulation/census';
+import type { EngineRule } from '../simulation/engine';
+import type { LatticeKind } from '../simulation/neighborhood';
+import type { SimulationSnapshot } from '../simulation/protocol';
+import type { CellBounds } from '../simulation/region';
+import type { BoundaryMode } from '../simulation/topology';
+
+interface CensusPanelProps {
+  getSnapshot: () => SimulationSnapshot | null;
+  /** Rule the board runs under, for classifying objects the catalogue does not name. */
+  rule: EngineRule;
+  /** Objects are traced across wrapped edges. */
+  boundary: BoundaryMode;
+  /** Named objects for the active rule, or null when the rule has no catalogue. */
+  catalogue: Map<string, KnownObject> | null;
+  onHighlight: (regions: CellBounds[] | null) => void;
+  /** Objects are traced with square 8-connectivity, so counting is off on other lattices. */
+  lattice: LatticeKind;
+}
+
+const CATEGORY_LABELS: Record<ObjectCategory, string> = {
+  still: 'Still life',
+  oscillator: 'Oscillator',
+  spaceship: 'Spaceship',
+  unknown: 'Unidentified',
+};
+
+/**
+ * Collapsible object census. Counting walks the whole grid, so it runs when asked rather than
+ * every generation; selecting a row outlines each instance on the canvas.
+ */
+const CensusPanel = ({
+  getSnapshot,
+  rule,
+  boundary,
+  catalogue,
+  onHighlight,
+  lattice,
+}: CensusPanelProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<CensusEntry[]>([]);
+  const [generation, setGeneration] = useState<number | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const supported = lattice === 'square';
+
+  useEffect(() => {
+    if (!supported) {
+      setEntries([]);
+      setGeneration(null);
+      setSelected(null);
+      onHighlight(null);
+    }
+  }, [supported, onHighlight]);
+
+  const handleCount = useCallback(() => {
+    const snapshot = getSnapshot();
+    if (!snapshot || !supported) {
+      return;
+    }
+    setEntries(takeCensus(snapshot.state, snapshot.cols, snapshot.rows, rule, boundary, catalogue));
+    setGeneration(snapshot.stats.generation);
+    setSelected(null);
+    onHighlight(null);
+  }, [getSnapshot, rule, boundary, catalogue, onHighlight, supported]);
+
+  const handleSelect = useCallback(
+    (entry: CensusEntry) => {
+      const next = selected === entry.key ? null : entry.key;
+      setSelected(next);
+      onHighlight(next ? entry.members : null);
+    },
+    [selected, onHighlight],
+  );
+
+  const handleToggle = useCallback(() => {
+    if (open) {
+      setSelected(null);
+      onHighlight(null);
+    }
+    setOpen(!open);
+  }, [open, onHighlight]);
+
+  const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <section className={`analytics census${open ? ' analytics--open' : ''}`}>
+      <button type="button" className="analytics__toggle" aria-expanded={open} onClick={handleToggle}>
+        Census
+      </button>
+      {open && (
+        <>
+          <div className="analytics__controls">
+            <span>
+              {generation === null
+                ? 'Count the objects on the board.'
+                : `${total.toLocaleString()} objects at gen ${generation.toLocaleString()}`}
+            </span>
+            <button type="button" className="analytics__export" onClick={handleCount} disabled={!supported}>
+              {generation === null ? 'Count' : 'Recount'}
+            </button>
+          </div>
+          {!supported && <p className="census__note">The census works on square lattices only.</p>}
+          {supported && !catalogue && <p className="census__note">No catalogue for this rule; shapes are named by how they behave.</p>}
+          <ul className="census__list">
+            {entries.map((entry) => (
+              <li key={entry.key}>
+                <button
+                  type="button"
+                  className="census__entry"
+                  aria-pressed={selected === entry.key}
+                  onClick={() => handleSelect(entry)}
+                >
+                  <span className="census__name">{entry.name}</span>
+                  <span className={`census__category census__category--${entry.category}`}>
+                    {CATEGORY_LABELS[entry.category]}
+                  </span>
+                  <span className="census__count">{entry.count.toLocaleString()}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CensusPanel;
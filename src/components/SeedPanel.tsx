@@ -0,0 +1,207 @@
+import { type ChangeEvent, type FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import type { RasterMode, RasterOptions, RasterSource } from '../patterns/raster';
+
+interface SeedPanelProps {
+  /** Seeds the grid from a picture; returns the number of live cells, or null if nothing is running. */
+  onSeed: (source: RasterSource, options: RasterOptions) => number | null;
+  /** Renders text to a picture shaped like the current grid. */
+  renderText: (text: string) => RasterSource | null;
+}
+
+const MODES: Record<RasterMode, string> = {
+  threshold: 'Threshold',
+  dither: 'Dither',
+};
+
+/**
+ * Collapsible controls for seeding the grid from a picture: an image file, a line of text or a
+ * frame from the webcam, reduced to one sample per cell and then thresholded or dithered.
+ */
+const SeedPanel = ({ onSeed, renderText }: SeedPanelProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<RasterOptions>({
+    mode: 'dither',
+    threshold: 0.5,
+    invert: false,
+    mapLuminance: true,
+  });
+  const [text, setText] = useState('');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && stream) {
+      video.srcObject = stream;
+      video.play().catch(() => setMessage('The webcam preview could not start.'));
+    }
+    return () => stream?.getTracks().forEach((track) => track.stop());
+  }, [stream]);
+
+  useEffect(() => {
+    if (!open) {
+      setStream(null);
+    }
+  }, [open]);
+
+  const seed = useCallback(
+    (source: RasterSource, label: string) => {
+      const alive = onSeed(source, options);
+      if (alive !== null) {
+        setMessage(`Seeded ${alive.toLocaleString()} cells from ${label}.`);
+      }
+    },
+    [onSeed, options],
+  );
+
+  const handleFileChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) {
+        return;
+      }
+      createImageBitmap(file)
+        .then((bitmap) => {
+          seed({ image: bitmap, width: bitmap.width, height: bitmap.height }, file.name);
+          bitmap.close();
+        })
+        .catch(() => setMessage(`${file.name} is not an image this browser can read.`));
+    },
+    [seed],
+  );
+
+  const handleText = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (text.trim().length === 0) {
+        return;
+      }
+      const source = renderText(text);
+      if (source) {
+        seed(source, `“${text.trim()}”`);
+      }
+    },
+    [text, renderText, seed],
+  );
+
+  const handleCamera = useCallback(() => {
+    if (stream) {
+      setStream(null);
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setMessage('This browser has no webcam access.');
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: true, audio: false })
+      .then((next) => {
+        setStream(next);
+        setMessage(null);
+      })
+      .catch(() => setMessage('Webcam access was refused.'));
+  }, [stream]);
+
+  const handleFrame = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) {
+      return;
+    }
+    seed({ image: video, width: video.videoWidth, height: video.videoHeight }, 'the webcam');
+  }, [seed]);
+
+  const update = useCallback(<K extends keyof RasterOptions>(key: K, value: RasterOptions[K]) => {
+    setOptions((previous) => ({ ...previous, [key]: value }));
+  }, []);
+
+  return (
+    <section className={`analytics seed${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Seed From Image
+      </button>
+      {open && (
+        <>
+          <div className="analytics__controls">
+            <select
+              value={options.mode}
+              onChange={(event) => update('mode', event.target.value as RasterMode)}
+              aria-label="Conversion"
+            >
+              {Object.entries(MODES).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              value={options.threshold}
+              onChange={(event) => update('threshold', Number(event.target.value))}
+              aria-label="Brightness threshold"
+            />
+            <span>{Math.round(options.threshold * 100)}%</span>
+          </div>
+          <div className="analytics__controls">
+            <label className="analytics__check">
+              <input
+                type="checkbox"
+                checked={options.invert}
+                onChange={(event) => update('invert', event.target.checked)}
+              />
+              Invert
+            </label>
+            <label className="analytics__check">
+              <input
+                type="checkbox"
+                checked={options.mapLuminance}
+                onChange={(event) => update('mapLuminance', event.target.checked)}
+              />
+              Brightness → age
+            </label>
+          </div>
+          <div className="analytics__controls">
+            <button type="button" className="analytics__export" onClick={() => fileInputRef.current?.click()}>
+              Image…
+            </button>
+            <button type="button" className="analytics__export" onClick={handleCamera} aria-pressed={stream !== null}>
+              {stream ? 'Close Webcam' : 'Webcam'}
+            </button>
+            {stream && (
+              <button type="button" className="analytics__export" onClick={handleFrame}>
+                Seed Frame
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" hidden onChange={handleFileChange} />
+          </div>
+          {stream && <video ref={videoRef} className="seed__preview" muted playsInline />}
+          <form className="sessions__save" onSubmit={handleText}>
+            <input
+              type="text"
+              value={text}
+              placeholder="Type a word"
+              onChange={(event) => setText(event.target.value)}
+              aria-label="Text to seed"
+            />
+            <button type="submit" className="analytics__export">
+              Seed Text
+            </button>
+          </form>
+          {message && <p className="census__note">{message}</p>}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default SeedPanel;
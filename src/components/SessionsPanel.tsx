@@ -0,0 +1,195 @@
+import { type FormEvent, type KeyboardEvent as ReactKeyboardEvent, useCallback, useEffect, useState } from 'react';
+import type { GridState } from '../simulation/protocol';
+import {
+  type NewSession,
+  type SessionSummary,
+  deleteSession,
+  listSessions,
+  loadSessionGrid,
+  renameSession,
+  saveSession,
+} from '../session/storage';
+
+interface SessionsPanelProps {
+  /** Everything but the name for a new session, or null when there is nothing to save yet. */
+  capture: () => Promise<Omit<NewSession, 'name'> | null>;
+  onOpen: (session: SessionSummary, grid: GridState) => void;
+}
+
+const formatSavedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Collapsible list of sessions saved in this browser. Each keeps the grid, energy field and
+ * every control value, and can be reopened, renamed or deleted.
+ */
+const SessionsPanel = ({ capture, onOpen }: SessionsPanelProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(() => setMessage('Saved sessions are unavailable in this browser.'));
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  const handleSave = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      setBusy(true);
+      capture()
+        .then((draft) => {
+          if (!draft) {
+            setMessage('Nothing to save yet.');
+            return null;
+          }
+          return saveSession({ ...draft, name: name.trim() || `Session ${sessions.length + 1}` });
+        })
+        .then((saved) => {
+          if (saved) {
+            setName('');
+            setMessage(`Saved “${saved.name}”.`);
+            refresh();
+          }
+        })
+        .catch(() => setMessage('The session could not be saved.'))
+        .finally(() => setBusy(false));
+    },
+    [capture, name, sessions.length, refresh],
+  );
+
+  const handleOpen = useCallback(
+    (session: SessionSummary) => {
+      loadSessionGrid(session.id)
+        .then((grid) => {
+          if (!grid) {
+            setMessage(`“${session.name}” has no saved grid.`);
+            return;
+          }
+          onOpen(session, grid);
+          setMessage(`Opened “${session.name}”.`);
+        })
+        .catch(() => setMessage(`“${session.name}” could not be opened.`));
+    },
+    [onOpen],
+  );
+
+  const handleDelete = useCallback(
+    (session: SessionSummary) => {
+      if (!window.confirm(`Delete “${session.name}”?`)) {
+        return;
+      }
+      deleteSession(session.id)
+        .then(refresh)
+        .catch(() => setMessage(`“${session.name}” could not be deleted.`));
+    },
+    [refresh],
+  );
+
+  const commitRename = useCallback(() => {
+    if (!renaming) {
+      return;
+    }
+    const next = renaming.name.trim();
+    setRenaming(null);
+    if (next.length === 0) {
+      return;
+    }
+    renameSession(renaming.id, next)
+      .then(refresh)
+      .catch(() => setMessage('The session could not be renamed.'));
+  }, [renaming, refresh]);
+
+  const handleRenameKey = useCallback(
+    (event: ReactKeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') {
+        commitRename();
+      } else if (event.key === 'Escape') {
+        setRenaming(null);
+      }
+    },
+    [commitRename],
+  );
+
+  return (
+    <section className={`analytics sessions${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Sessions
+      </button>
+      {open && (
+        <>
+          <form className="sessions__save" onSubmit={handleSave}>
+            <input
+              type="text"
+              value={name}
+              placeholder={`Session ${sessions.length + 1}`}
+              onChange={(event) => setName(event.target.value)}
+              aria-label="Session name"
+            />
+            <button type="submit" className="analytics__export" disabled={busy}>
+              Save
+            </button>
+          </form>
+          {message && <p className="census__note">{message}</p>}
+          <ul className="sessions__list">
+            {sessions.map((session) => (
+              <li key={session.id} className="sessions__item">
+                <img className="sessions__thumbnail" src={session.thumbnail} alt="" />
+                <div className="sessions__details">
+                  {renaming?.id === session.id ? (
+                    <input
+                      type="text"
+                      value={renaming.name}
+                      onChange={(event) => setRenaming({ id: session.id, name: event.target.value })}
+                      onKeyDown={handleRenameKey}
+                      onBlur={commitRename}
+                      aria-label="New session name"
+                      autoFocus
+                    />
+                  ) : (
+                    <span className="sessions__name">{session.name}</span>
+                  )}
+                  <span className="sessions__meta">
+                    Gen {session.generation.toLocaleString()} · {formatSavedAt(session.savedAt)}
+                  </span>
+                  <div className="sessions__actions">
+                    <button type="button" className="analytics__export" onClick={() => handleOpen(session)}>
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      className="analytics__export"
+                      onClick={() => setRenaming({ id: session.id, name: session.name })}
+                    >
+                      Rename
+                    </button>
+                    <button type="button" className="analytics__export" onClick={() => handleDelete(session)}>
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,100 @@
+import { type ChangeEvent, useCallback, useState } from 'react';
+import { VISUAL_STYLES, type VisualStyle, matchVisualStyle } from '../render/visualStyle';
+
+interface StylePanelProps {
+  style: VisualStyle;
+  onChange: (style: VisualStyle) => void;
+}
+
+interface StyleParameter {
+  key: keyof VisualStyle;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const PARAMETERS: StyleParameter[] = [
+  { key: 'ageSpan', label: 'Age span', min: 0, max: 90, step: 1 },
+  { key: 'energyScale', label: 'Energy ceiling', min: 40, max: 360, step: 10 },
+  { key: 'energyTint', label: 'Energy tint', min: 0, max: 1.5, step: 0.05 },
+  { key: 'energySwell', label: 'Energy swell', min: 0, max: 2, step: 0.05 },
+  { key: 'coreSize', label: 'Core size', min: 0.1, max: 1.2, step: 0.05 },
+  { key: 'halo', label: 'Halo', min: 0, max: 2, step: 0.05 },
+  { key: 'shimmer', label: 'Shimmer', min: 0, max: 2, step: 0.05 },
+  { key: 'energyRetention', label: 'Glow memory', min: 0, max: 0.95, step: 0.05 },
+];
+
+const CUSTOM = 'custom';
+
+/**
+ * Collapsible picker for how age and energy are drawn: a preset to start from and a slider for
+ * each of its parameters. Nudging a slider turns the preset into a custom style.
+ */
+const StylePanel = ({ style, onChange }: StylePanelProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const preset = matchVisualStyle(style) ?? CUSTOM;
+
+  const handlePreset = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      const next = VISUAL_STYLES[event.target.value];
+      if (next) {
+        onChange(next.style);
+      }
+    },
+    [onChange],
+  );
+
+  const update = useCallback(
+    (key: keyof VisualStyle) => (event: ChangeEvent<HTMLInputElement>) => {
+      onChange({ ...style, [key]: Number(event.target.value) });
+    },
+    [style, onChange],
+  );
+
+  return (
+    <section className={`analytics style-panel${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Visual Style
+      </button>
+      {open && (
+        <>
+          <div className="analytics__controls">
+            <span>Preset</span>
+            <select value={preset} onChange={handlePreset} aria-label="Visual style preset">
+              {Object.values(VISUAL_STYLES).map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+              {preset === CUSTOM && <option value={CUSTOM}>Custom</option>}
+            </select>
+          </div>
+          <div className="style-panel__parameters">
+            {PARAMETERS.map((parameter) => (
+              <label key={parameter.key} className="style-panel__parameter">
+                <span>{parameter.label}</span>
+                <input
+                  type="range"
+                  min={parameter.min}
+                  max={parameter.max}
+                  step={parameter.step}
+                  value={style[parameter.key]}
+                  onChange={update(parameter.key)}
+                />
+                <span className="style-panel__value">{style[parameter.key]}</span>
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default StylePanel;
@@ -0,0 +1,324 @@
+import { type ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { formatColor, parseColor } from '../render/color';
+import {
+  BACKGROUND_THEME_FIELDS,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  MIN_MUTED_CONTRAST,
+  MIN_TEXT_CONTRAST,
+  SOLID_THEME_FIELDS,
+  TRANSLUCENT_THEME_FIELDS,
+  type ThemeDefinition,
+  panelContrast,
+  parseTheme,
+  parseThemeJson,
+} from '../render/themes';
+import { downloadBlob } from '../utils/download';
+
+interface ThemeEditorProps {
+  /** Theme selected in the picker; opening the editor or picking another theme starts a draft from it. */
+  themeKey: string;
+  themes: Record<string, ThemeDefinition>;
+  isUserTheme: (key: string) => boolean;
+  /** Shows a draft in place of the selected theme, or restores the selection when null. */
+  onPreview: (theme: ThemeDefinition | null) => void;
+  /** Stores the theme under `key`, or as a new theme when null, and selects it. */
+  onSave: (key: string | null, theme: ThemeDefinition) => Promise<void>;
+  onDelete: (key: string) => Promise<void>;
+}
+
+type ThemeField =
+  | (typeof SOLID_THEME_FIELDS)[number]
+  | (typeof TRANSLUCENT_THEME_FIELDS)[number]
+  | (typeof BACKGROUND_THEME_FIELDS)[number];
+
+const FIELD_LABELS: Record<ThemeField, string> = {
+  accent: 'Accent',
+  accentSoft: 'Accent soft',
+  accentGlow: 'Accent glow',
+  backdrop: 'Backdrop',
+  text: 'Text',
+  textMuted: 'Muted text',
+  panel: 'Panel',
+  panelBorder: 'Panel border',
+  cellCore: 'Cell core',
+  cellMid: 'Cell mid',
+  cellEdge: 'Cell edge',
+  haloColor: 'Halo',
+  background: 'Background',
+  backgroundSecondary: 'Overlay',
+};
+
+const BLACK = { r: 0, g: 0, b: 0, a: 1 };
+
+const slugify = (label: string): string =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'theme';
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  /** Offers an opacity slider; solid fields always write `#rrggbb`. */
+  translucent: boolean;
+  onChange: (value: string) => void;
+}
+
+const ColorField = ({ label, value, translucent, onChange }: ColorFieldProps): JSX.Element => {
+  const color = parseColor(value) ?? BLACK;
+  const hex = formatColor({ ...color, a: 1 });
+  return (
+    <label className="theme-editor__field">
+      <span>{label}</span>
+      <input
+        type="color"
+        value={hex}
+        onChange={(event) => onChange(formatColor({ ...(parseColor(event.target.value) ?? BLACK), a: color.a }))}
+      />
+      {translucent && (
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={color.a}
+          onChange={(event) => onChange(formatColor({ ...color, a: Number(event.target.value) }))}
+          aria-label={`${label} opacity`}
+        />
+      )}
+    </label>
+  );
+};
+
+/**
+ * Collapsible editor for every theme field, previewed live on the canvas and panels. Drafts can
+ * be saved as user themes in this browser and exchanged with others as JSON files.
+ */
+const ThemeEditor = ({ themeKey, themes, isUserTheme, onPreview, onSave, onDelete }: ThemeEditorProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ThemeDefinition>(themes[themeKey]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const themesRef = useRef(themes);
+  themesRef.current = themes;
+
+  useEffect(() => {
+    const theme = themesRef.current[themeKey];
+    if (theme) {
+      setDraft(theme);
+    }
+  }, [themeKey, open]);
+
+  useEffect(() => {
+    onPreview(open ? draft : null);
+  }, [open, draft, onPreview]);
+
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const update = useCallback(<K extends keyof ThemeDefinition>(key: K, value: ThemeDefinition[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }));
+  }, []);
+
+  const updateStop = useCallback((index: number, value: string) => {
+    setDraft((previous) => ({
+      ...previous,
+      gradient: previous.gradient.map((stop, i) => (i === index ? value : stop)),
+    }));
+  }, []);
+
+  const save = useCallback(
+    (key: string | null) => {
+      const result = parseTheme(draft);
+      if (!result.ok) {
+        setMessage(result.error);
+        return;
+      }
+      setBusy(true);
+      onSave(key, result.theme)
+        .then(() => setMessage(`Saved “${result.theme.label}”.`))
+        .catch(() => setMessage('The theme could not be saved.'))
+        .finally(() => setBusy(false));
+    },
+    [draft, onSave],
+  );
+
+  const handleDelete = useCallback(() => {
+    const { label } = themes[themeKey];
+    if (!window.confirm(`Delete “${label}”?`)) {
+      return;
+    }
+    onDelete(themeKey)
+      .then(() => setMessage(`Deleted “${label}”.`))
+      .catch(() => setMessage('The theme could not be deleted.'));
+  }, [themes, themeKey, onDelete]);
+
+  const handleExport = useCallback(() => {
+    const json = `${JSON.stringify(draft, null, 2)}\n`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${slugify(draft.label)}.theme.json`);
+  }, [draft]);
+
+  const handleImport = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    file
+      .text()
+      .then((text) => {
+        const result = parseThemeJson(text);
+        if (!result.ok) {
+          setMessage(`${file.name}: ${result.error}`);
+          return;
+        }
+        setDraft(result.theme);
+        setMessage(`Imported “${result.theme.label}”; save it to keep it.`);
+      })
+      .catch(() => setMessage(`${file.name} could not be read.`));
+  }, []);
+
+  const contrast = panelContrast(draft);
+  const editingUserTheme = isUserTheme(themeKey);
+
+  return (
+    <section className={`analytics theme-editor${open ? ' analytics--open' : ''}`}>
+      <button
+        type="button"
+        className="analytics__toggle"
+        aria-expanded={open}
+        onClick={() => setOpen((previous) => !previous)}
+      >
+        Theme Editor
+      </button>
+      {open && (
+        <>
+          <div className="sessions__save">
+            <input
+              type="text"
+              value={draft.label}
+              onChange={(event) => update('label', event.target.value)}
+              aria-label="Theme name"
+            />
+          </div>
+          <div className="theme-editor__fields">
+            <div className="theme-editor__group">
+              <span className="census__category">Gradient</span>
+              <div className="theme-editor__stops">
+                {draft.gradient.map((stop, index) => (
+                  <input
+                    key={index}
+                    type="color"
+                    value={stop}
+                    onChange={(event) => updateStop(index, event.target.value)}
+                    aria-label={`Gradient stop ${index + 1}`}
+                  />
+                ))}
+                <button
+                  type="button"
+                  className="analytics__export"
+                  onClick={() => update('gradient', draft.gradient.slice(0, -1))}
+                  disabled={draft.gradient.length <= MIN_GRADIENT_STOPS}
+                  aria-label="Remove last gradient stop"
+                >
+                  −
+                </button>
+                <button
+                  type="button"
+                  className="analytics__export"
+                  onClick={() => update('gradient', [...draft.gradient, draft.gradient[draft.gradient.length - 1]])}
+                  disabled={draft.gradient.length >= MAX_GRADIENT_STOPS}
+                  aria-label="Add gradient stop"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+            <div className="theme-editor__group">
+              <span className="census__category">Colours</span>
+              {SOLID_THEME_FIELDS.map((key) => (
+                <ColorField
+                  key={key}
+                  label={FIELD_LABELS[key]}
+                  value={draft[key]}
+                  translucent={false}
+                  onChange={(value) => update(key, value)}
+                />
+              ))}
+              {TRANSLUCENT_THEME_FIELDS.map((key) => (
+                <ColorField
+                  key={key}
+                  label={FIELD_LABELS[key]}
+                  value={draft[key]}
+                  translucent
+                  onChange={(value) => update(key, value)}
+                />
+              ))}
+            </div>
+            <div className="theme-editor__group">
+              <span className="census__category">Backgrounds · CSS</span>
+              {BACKGROUND_THEME_FIELDS.map((key) => (
+                <label key={key} className="theme-editor__css">
+                  <span>{FIELD_LABELS[key]}</span>
+                  <textarea
+                    value={draft[key]}
+                    rows={3}
+                    spellCheck={false}
+                    onChange={(event) => update(key, event.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          {contrast && contrast.text < MIN_TEXT_CONTRAST && (
+            <p className="theme-editor__warning">
+              Text on panels is {contrast.text.toFixed(1)}:1; aim for at least {MIN_TEXT_CONTRAST}:1.
+            </p>
+          )}
+          {contrast && contrast.textMuted < MIN_MUTED_CONTRAST && (
+            <p className="theme-editor__warning">
+              Muted text on panels is {contrast.textMuted.toFixed(1)}:1; aim for at least {MIN_MUTED_CONTRAST}:1.
+            </p>
+          )}
+          <div className="analytics__controls">
+            <button
+              type="button"
+              className="analytics__export"
+              onClick={() => save(editingUserTheme ? themeKey : null)}
+              disabled={busy}
+            >
+              {editingUserTheme ? 'Save' : 'Save as New'}
+            </button>
+            {editingUserTheme && (
+              <button type="button" className="analytics__export" onClick={() => save(null)} disabled={busy}>
+                Save Copy
+              </button>
+            )}
+            <button type="button" className="analytics__export" onClick={() => setDraft(themes[themeKey])}>
+              Revert
+            </button>
+            {editingUserTheme && (
+              <button type="button" className="analytics__export" onClick={handleDelete}>
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="analytics__controls">
+            <span>JSON</span>
+            <button type="button" className="analytics__export" onClick={() => fileInputRef.current?.click()}>
+              Import
+            </button>
+            <button type="button" className="analytics__export" onClick={handleExport}>
+              Export
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+          </div>
+          {message && <p className="census__note">{message}</p>}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ThemeEditor;
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { type CellLayout, cellCenter, cellPolygon } from '../render/layout';
+import type { LatticeKind } from '../simulation/neighborhood';
+import { brushOffsets, lineCells } from './brush';
+
+/** Row-major order, with the -0 that negated offsets can produce read as 0. */
+const sorted = (cells: Array<[number, number]>): Array<[number, number]> =>
+  cells.map(([x, y]): [number, number] => [x + 0, y + 0]).sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+
+const unitLayout = (lattice: LatticeKind): CellLayout => ({
+  cols: 0,
+  rows: 0,
+  lattice,
+  cellSize: 1,
+  offsetX: 0,
+  offsetY: 0,
+});
+
+/**
+ * Centre-to-centre displacements a brush covers from the cell at (x, y), as comparable keys;
+ * `mirrored` flips them top to bottom.
+ */
+const footprint = (
+  offsets: Array<[number, number]>,
+  lattice: LatticeKind,
+  x: number,
+  y: number,
+  mirrored = false,
+): string[] => {
+  const layout = unitLayout(lattice);
+  const origin = cellCenter(layout, x, y);
+  return offsets
+    .map(([dx, dy]) => {
+      const center = cellCenter(layout, x + dx, y + dy);
+      const offsetY = (center.y - origin.y) * (mirrored ? -1 : 1);
+      return `${(center.x - origin.x + 0).toFixed(3)},${(offsetY + 0).toFixed(3)}`;
+    })
+    .sort();
+};
+
+/** Whether two cells share at least one corner. */
+const touching = (lattice: LatticeKind, [ax, ay]: [number, number], [bx, by]: [number, number]): boolean => {
+  const corners = (x: number, y: number): string[] => {
+    const flat = cellPolygon(unitLayout(lattice), x, y);
+    return Array.from({ length: flat.length / 2 }, (_, i) => `${flat[i * 2].toFixed(3)},${flat[i * 2 + 1].toFixed(3)}`);
+  };
+  const shared = new Set(corners(ax, ay));
+  return corners(bx, by).some((corner) => shared.has(corner));
+};
+
+describe('brushOffsets', () => {
+  it('covers a single cell at size 1 in every shape', () => {
+    expect(sorted(brushOffsets('square', 1))).toEqual([[0, 0]]);
+    expect(sorted(brushOffsets('circle', 1))).toEqual([[0, 0]]);
+    expect(sorted(brushOffsets('diamond', 1))).toEqual([[0, 0]]);
+  });
+
+  it('fills the whole square and trims circles and diamonds to their outline', () => {
+    expect(brushOffsets('square', 3)).toHaveLength(9);
+    expect(brushOffsets('circle', 3)).toHaveLength(9);
+    expect(brushOffsets('circle', 5)).toHaveLength(21);
+    expect(sorted(brushOffsets('diamond', 3))).toEqual([
+      [0, -1],
+      [-1, 0],
+      [0, 0],
+      [1, 0],
+      [0, 1],
+    ]);
+  });
+
+  it('keeps the cursor cell in the top-left half of even brushes', () => {
+    expect(sorted(brushOffsets('square', 2))).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ]);
+  });
+
+  it('stays symmetric about the centre of odd brushes', () => {
+    const offsets = brushOffsets('circle', 7);
+    const keys = new Set(offsets.map(([x, y]) => `${x},${y}`));
+    offsets.forEach(([x, y]) => expect(keys.has(`${-x},${-y}`)).toBe(true));
+  });
+
+  it.each(['hex', 'triangle'] as const)('covers a single cell at size 1 on the %s lattice', (lattice) => {
+    expect(brushOffsets('circle', 1, lattice, 0)).toEqual([[0, 0]]);
+    expect(brushOffsets('circle', 1, lattice, 1)).toEqual([[0, 0]]);
+  });
+
+  it('reaches the six touching hexes at size 3', () => {
+    expect(sorted(brushOffsets('circle', 3, 'hex', 0))).toEqual([
+      [-1, -1],
+      [0, -1],
+      [-1, 0],
+      [0, 0],
+      [1, 0],
+      [-1, 1],
+      [0, 1],
+    ]);
+  });
+
+  it.each(['hex', 'triangle'] as const)('paints the same shape from either variant on the %s lattice', (lattice) => {
+    // Odd hex rows are shifted copies of even ones; the triangle at (1, 0) is the one at (0, 0) upside down.
+    const [x, y] = lattice === 'hex' ? [0, 1] : [1, 0];
+    (['circle', 'square', 'diamond'] as const).forEach((shape) => {
+      [2, 3, 5].forEach((size) => {
+        const even = footprint(brushOffsets(shape, size, lattice, 0), lattice, 0, 0);
+        const odd = footprint(brushOffsets(shape, size, lattice, 1), lattice, x, y, lattice === 'triangle');
+        expect(odd).toEqual(even);
+      });
+    });
+  });
+
+  it.each(['hex', 'triangle'] as const)('grows with size on the %s lattice', (lattice) => {
+    const counts = [1, 2, 3, 4, 5, 6].map((size) => brushOffsets('circle', size, lattice).length);
+    counts.slice(1).forEach((count, i) => expect(count).toBeGreaterThanOrEqual(counts[i]));
+    expect(counts[5]).toBeGreaterThan(counts[0]);
+  });
+});
+
+describe('lineCells', () => {
+  it('includes both ends', () => {
+    expect(lineCells(2, 2, 2, 2)).toEqual([[2, 2]]);
+    const cells = lineCells(0, 0, 5, 2);
+    expect(cells[0]).toEqual([0, 0]);
+    expect(cells[cells.length - 1]).toEqual([5, 2]);
+  });
+
+  it('steps to a touching cell every time, in either direction', () => {
+    [lineCells(0, 0, 7, 3), lineCells(7, 3, 0, 0), lineCells(-2, 5, 1, -4)].forEach((cells) => {
+      for (let i = 1; i < cells.length; i += 1) {
+        const [ax, ay] = cells[i - 1];
+        const [bx, by] = cells[i];
+        expect(Math.max(Math.abs(ax - bx), Math.abs(ay - by))).toBe(1);
+      }
+    });
+  });
+
+  it.each(['hex', 'triangle'] as const)('joins both ends through touching cells on the %s lattice', (lattice) => {
+    [lineCells(0, 0, 7, 3, lattice), lineCells(6, 5, -1, 0, lattice), lineCells(2, 0, 2, 6, lattice)].forEach(
+      (cells) => {
+        for (let i = 1; i < cells.length; i += 1) {
+          expect(touching(lattice, cells[i - 1], cells[i])).toBe(true);
+        }
+      },
+    );
+    const cells = lineCells(0, 0, 7, 3, lattice);
+    expect(cells[0]).toEqual([0, 0]);
+    expect(cells[cells.length - 1]).toEqual([7, 3]);
+  });
+
+  it('draws straight runs cell by cell', () => {
+    expect(lineCells(0, 0, 3, 0)).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [3, 0],
+    ]);
+    expect(lineCells(0, 0, 2, 2)).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+});
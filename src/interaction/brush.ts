@@ -0,0 +1,169 @@
+import { type CellLayout, LATTICE_PITCH, cellCenter, cellCoordinates } from '../render/layout';
+import type { LatticeKind } from '../simulation/neighborhood';
+
+export type BrushShape = 'square' | 'circle' | 'diamond';
+
+export const BRUSH_SHAPES: Record<BrushShape, { key: BrushShape; label: string }> = {
+  circle: { key: 'circle', label: 'Round' },
+  square: { key: 'square', label: 'Square' },
+  diamond: { key: 'diamond', label: 'Diamond' },
+};
+
+export const MAX_BRUSH_SIZE = 12;
+
+/** A one-unit layout of the lattice, for measuring shapes in cell widths. */
+const unitLayout = (lattice: LatticeKind): CellLayout => ({
+  cols: 0,
+  rows: 0,
+  lattice,
+  cellSize: 1,
+  offsetX: 0,
+  offsetY: 0,
+});
+
+/** A cell of each variant, to measure brushes from. */
+const VARIANT_ORIGINS: Record<LatticeKind, Array<[number, number]>> = {
+  square: [[0, 0]],
+  hex: [[0, 0], [0, 1]],
+  triangle: [[0, 0], [1, 0]],
+};
+
+/**
+ * Offsets covered on hex and triangle lattices, measured between cell centres in units of the
+ * cell's own footprint so a brush of size n is about n cells across on every lattice.
+ */
+const latticeBrushOffsets = (
+  shape: BrushShape,
+  size: number,
+  lattice: LatticeKind,
+  variant: number,
+): Array<[number, number]> => {
+  const layout = unitLayout(lattice);
+  const pitch = LATTICE_PITCH[lattice];
+  const unit = Math.sqrt(pitch.x * pitch.y);
+  const radius = size / 2;
+  const [originX, originY] = VARIANT_ORIGINS[lattice][variant];
+  const origin = cellCenter(layout, originX, originY);
+  const reachX = Math.ceil((radius * unit) / pitch.x) + 1;
+  const reachY = Math.ceil((radius * unit) / pitch.y) + 1;
+  const offsets: Array<[number, number]> = [];
+  for (let dy = -reachY; dy <= reachY; dy += 1) {
+    for (let dx = -reachX; dx <= reachX; dx += 1) {
+      const center = cellCenter(layout, originX + dx, originY + dy);
+      const cx = Math.abs(center.x - origin.x) / unit;
+      const cy = Math.abs(center.y - origin.y) / unit;
+      const inside =
+        shape === 'circle'
+          ? cx * cx + cy * cy <= radius * radius
+          : shape === 'diamond'
+            ? cx + cy <= radius
+            : cx <= radius && cy <= radius;
+      if (inside) {
+        offsets.push([dx, dy]);
+      }
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Cell offsets covered by a brush of the given diameter, centred on (0, 0). Hex and triangle
+ * cells reach different neighbours depending on their variant (see `latticeVariant`), so pass
+ * the variant of the cell under the brush.
+ */
+export const brushOffsets = (
+  shape: BrushShape,
+  size: number,
+  lattice: LatticeKind = 'square',
+  variant = 0,
+): Array<[number, number]> => {
+  if (lattice !== 'square') {
+    return latticeBrushOffsets(shape, size, lattice, variant);
+  }
+  const offsets: Array<[number, number]> = [];
+  const low = -Math.floor((size - 1) / 2);
+  const high = low + size - 1;
+  const radius = size / 2;
+  for (let dy = low; dy <= high; dy += 1) {
+    for (let dx = low; dx <= high; dx += 1) {
+      const cx = dx - (low + high) / 2;
+      const cy = dy - (low + high) / 2;
+      if (shape === 'circle' && cx * cx + cy * cy > radius * radius) {
+        continue;
+      }
+      if (shape === 'diamond' && Math.abs(cx) + Math.abs(cy) > radius) {
+        continue;
+      }
+      offsets.push([dx, dy]);
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Cells crossed by the straight line between two cell centres on a hex or triangle lattice,
+ * found by hit testing points along it; consecutive cells always touch.
+ */
+const latticeLineCells = (
+  lattice: LatticeKind,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): Array<[number, number]> => {
+  const layout = unitLayout(lattice);
+  const start = cellCenter(layout, x0, y0);
+  const end = cellCenter(layout, x1, y1);
+  const pitch = LATTICE_PITCH[lattice];
+  const samples = Math.max(1, Math.ceil((Math.hypot(end.x - start.x, end.y - start.y) * 4) / pitch.x));
+  const cells: Array<[number, number]> = [];
+  for (let i = 0; i <= samples; i += 1) {
+    const t = i / samples;
+    const { x, y } = cellCoordinates(layout, start.x + (end.x - start.x) * t, start.y + (end.y - start.y) * t);
+    const last = cells[cells.length - 1];
+    if (!last || last[0] !== x || last[1] !== y) {
+      cells.push([x, y]);
+    }
+  }
+  return cells;
+};
+
+/**
+ * Every grid cell on the line between two cells, both ends included: Bresenham on square
+ * lattices, the cells under the straight line between centres on the others.
+ */
+export const lineCells = (
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  lattice: LatticeKind = 'square',
+): Array<[number, number]> => {
+  if (lattice !== 'square') {
+    return latticeLineCells(lattice, x0, y0, x1, y1);
+  }
+  const cells: Array<[number, number]> = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let error = dx + dy;
+  let x = x0;
+  let y = y0;
+  for (;;) {
+    cells.push([x, y]);
+    if (x === x1 && y === y1) {
+      break;
+    }
+    const doubled = error * 2;
+    if (doubled >= dy) {
+      error += dy;
+      x += sx;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+  return cells;
+};
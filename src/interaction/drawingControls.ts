@@ -0,0 +1,141 @@
+import type { Application, FederatedPointerEvent } from 'pixi.js';
+import type { Camera } from '../render/camera';
+import { type CellLayout, cellCoordinates } from '../render/layout';
+import type { PaintMode } from '../simulation/engine';
+import { latticeVariant } from '../simulation/neighborhood';
+import { type BrushShape, brushOffsets, lineCells } from './brush';
+
+export interface Brush {
+  mode: PaintMode;
+  size: number;
+  shape: BrushShape;
+}
+
+export interface DrawingControlsOptions {
+  getLayout: () => CellLayout | null;
+  /** The active brush, or null while a non-painting tool is selected. */
+  getBrush: () => Brush | null;
+  /** Receives the grid indices touched by each stroke segment, tagged with the stroke's id. */
+  onPaint: (cells: number[], mode: PaintMode, stroke: number) => void;
+}
+
+interface Stroke {
+  id: number;
+  pointerId: number;
+  brush: Brush;
+  /** Brush offsets for each lattice variant; square lattices have one. */
+  offsets: Array<Array<[number, number]>>;
+  last: { x: number; y: number };
+  /** Cells already painted this stroke, so toggling does not flicker under a slow pointer. */
+  visited: Set<number>;
+}
+
+/**
+ * Paints cells under a single primary pointer (mouse, pen or one finger). Consecutive samples
+ * are joined with a line so fast strokes stay continuous; a second touch abandons the stroke
+ * and leaves the gesture to the camera's pinch handling.
+ */
+export const attachDrawingControls = (
+  app: Application,
+  camera: Camera,
+  { getLayout, getBrush, onPaint }: DrawingControlsOptions,
+): (() => void) => {
+  const pointers = new Set<number>();
+  let stroke: Stroke | null = null;
+  let strokeCount = 0;
+
+  const cellUnder = (event: FederatedPointerEvent, layout: CellLayout): { x: number; y: number } => {
+    const world = camera.toWorld(event.global.x, event.global.y);
+    return cellCoordinates(layout, world.x, world.y);
+  };
+
+  const paintSegment = (from: { x: number; y: number }, to: { x: number; y: number }): void => {
+    const layout = getLayout();
+    if (!stroke || !layout) {
+      return;
+    }
+    const { cols, rows, lattice } = layout;
+    const { id, offsets, visited, brush } = stroke;
+    const cells: number[] = [];
+    lineCells(from.x, from.y, to.x, to.y, lattice).forEach(([lineX, lineY]) => {
+      offsets[latticeVariant(lattice, lineX, lineY)].forEach(([dx, dy]) => {
+        const x = lineX + dx;
+        const y = lineY + dy;
+        if (x < 0 || x >= cols || y < 0 || y >= rows) {
+          return;
+        }
+        const index = y * cols + x;
+        if (!visited.has(index)) {
+          visited.add(index);
+          cells.push(index);
+        }
+      });
+    });
+    if (cells.length > 0) {
+      onPaint(cells, brush.mode, id);
+    }
+  };
+
+  const handlePointerDown = (event: FederatedPointerEvent): void => {
+    pointers.add(event.pointerId);
+    if (pointers.size > 1) {
+      stroke = null;
+      return;
+    }
+    const brush = getBrush();
+    const layout = getLayout();
+    if (!brush || !layout || event.button !== 0) {
+      return;
+    }
+    const cell = cellUnder(event, layout);
+    strokeCount += 1;
+    stroke = {
+      id: strokeCount,
+      pointerId: event.pointerId,
+      brush,
+      offsets: (layout.lattice === 'square' ? [0] : [0, 1]).map((variant) =>
+        brushOffsets(brush.shape, brush.size, layout.lattice, variant),
+      ),
+      last: cell,
+      visited: new Set(),
+    };
+    paintSegment(cell, cell);
+  };
+
+  const handlePointerMove = (event: FederatedPointerEvent): void => {
+    const layout = getLayout();
+    if (!stroke || !layout || event.pointerId !== stroke.pointerId) {
+      return;
+    }
+    const cell = cellUnder(event, layout);
+    if (cell.x === stroke.last.x && cell.y === stroke.last.y) {
+      return;
+    }
+    if (stroke.brush.mode !== 'toggle') {
+      stroke.visited.clear();
+    }
+    paintSegment(stroke.last, cell);
+    stroke.last = cell;
+  };
+
+  const handlePointerUp = (event: FederatedPointerEvent): void => {
+    pointers.delete(event.pointerId);
+    if (stroke?.pointerId === event.pointerId) {
+      stroke = null;
+    }
+  };
+
+  app.stage.on('pointerdown', handlePointerDown);
+  app.stage.on('pointermove', handlePointerMove);
+  app.stage.on('pointerup', handlePointerUp);
+  app.stage.on('pointerupoutside', handlePointerUp);
+  app.stage.on('pointercancel', handlePointerUp);
+
+  return () => {
+    app.stage.off('pointerdown', handlePointerDown);
+    app.stage.off('pointermove', handlePointerMove);
+    app.stage.off('pointerup', handlePointerUp);
+    app.stage.off('pointerupoutside', handlePointerUp);
+    app.stage.off('pointercancel', handlePointerUp);
+  };
+};
@@ -0,0 +1,91 @@
+import type { Application, FederatedPointerEvent } from 'pixi.js';
+import type { Pattern } from '../patterns/formats';
+import type { Camera } from '../render/camera';
+import { type CellLayout, cellCoordinates } from '../render/layout';
+import { alignToLattice } from '../simulation/neighborhood';
+
+export interface StampControlsOptions {
+  getLayout: () => CellLayout | null;
+  /** The pattern to stamp in its current orientation, or null while stamping is off. */
+  getStamp: () => Pattern | null;
+  /** Reports where the stamp would land (its top-left cell), or null when the pointer leaves. */
+  onHover: (origin: { x: number; y: number } | null) => void;
+  onStamp: (origin: { x: number; y: number }) => void;
+}
+
+/**
+ * Centres the active stamp under the pointer and places it when a single primary press is
+ * released, so touch users can drag the ghost into position before lifting their finger. On hex
+ * and triangle lattices the origin snaps to cells where the pattern keeps its shape.
+ */
+export const attachStampControls = (
+  app: Application,
+  camera: Camera,
+  { getLayout, getStamp, onHover, onStamp }: StampControlsOptions,
+): (() => void) => {
+  const pointers = new Set<number>();
+  let pressed: number | null = null;
+
+  const originUnder = (event: FederatedPointerEvent): { x: number; y: number } | null => {
+    const layout = getLayout();
+    const stamp = getStamp();
+    if (!layout || !stamp) {
+      return null;
+    }
+    const world = camera.toWorld(event.global.x, event.global.y);
+    const cell = cellCoordinates(layout, world.x, world.y);
+    return alignToLattice(
+      layout.lattice,
+      cell.x - Math.floor(stamp.width / 2),
+      cell.y - Math.floor(stamp.height / 2),
+    );
+  };
+
+  const handlePointerDown = (event: FederatedPointerEvent): void => {
+    pointers.add(event.pointerId);
+    pressed = pointers.size === 1 && event.button === 0 && getStamp() ? event.pointerId : null;
+    onHover(originUnder(event));
+  };
+
+  const handlePointerMove = (event: FederatedPointerEvent): void => {
+    onHover(originUnder(event));
+  };
+
+  const handlePointerUp = (event: FederatedPointerEvent): void => {
+    pointers.delete(event.pointerId);
+    if (pressed === event.pointerId) {
+      pressed = null;
+      const origin = originUnder(event);
+      if (origin) {
+        onStamp(origin);
+      }
+    }
+  };
+
+  const handlePointerCancel = (event: FederatedPointerEvent): void => {
+    pointers.delete(event.pointerId);
+    if (pressed === event.pointerId) {
+      pressed = null;
+    }
+  };
+
+  const handlePointerLeave = (): void => {
+    onHover(null);
+  };
+
+  app.stage.on('pointerdown', handlePointerDown);
+  app.stage.on('pointermove', handlePointerMove);
+  app.stage.on('pointerup', handlePointerUp);
+  app.stage.on('pointerupoutside', handlePointerCancel);
+  app.stage.on('pointercancel', handlePointerCancel);
+  app.stage.on('pointerleave', handlePointerLeave);
+
+  return () => {
+    app.stage.off('pointerdown', handlePointerDown);
+    app.stage.off('pointermove', handlePointerMove);
+    app.stage.off('pointerup', handlePointerUp);
+    app.stage.off('pointerupoutside', handlePointerCancel);
+    app.stage.off('pointercancel', handlePointerCancel);
+    app.stage.off('pointerleave', handlePointerLeave);
+  };
+};
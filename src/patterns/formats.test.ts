@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { encodeRle, parseCells, parsePattern, parseRle } from './formats';
+
+const GLIDER_RLE = `#N Glider
+x = 3, y = 3, rule = B3/S23
+bob$2bo$3o!
+`;
+
+const GLIDER_CELLS: Array<[number, number]> = [
+  [1, 0],
+  [2, 1],
+  [0, 2],
+  [1, 2],
+  [2, 2],
+];
+
+const gridOf = (cells: Array<[number, number]>, cols: number, rows: number): Uint8Array => {
+  const state = new Uint8Array(cols * rows);
+  cells.forEach(([x, y]) => {
+    state[y * cols + x] = 1;
+  });
+  return state;
+};
+
+describe('parseRle', () => {
+  it('reads the name, rule, size and cells of a glider', () => {
+    const result = parseRle(GLIDER_RLE);
+    expect(result).toEqual({
+      ok: true,
+      pattern: { name: 'Glider', rule: 'B3/S23', width: 3, height: 3, cells: GLIDER_CELLS },
+    });
+  });
+
+  it('keeps the commas of an HROT rule', () => {
+    const result = parseRle('x = 2, y = 1, rule = R5,C0,M1,S34..58,B34..45,NM\n2o!');
+    expect(result.ok && result.pattern.rule).toBe('R5,C0,M1,S34..58,B34..45,NM');
+  });
+
+  it('loads only state A of multi-state data', () => {
+    const result = parseRle('x = 3, y = 1, rule = B2/S/G3\nABA!');
+    expect(result.ok && result.pattern.cells).toEqual([
+      [0, 0],
+      [2, 0],
+    ]);
+  });
+
+  it('reads the letters of multi-state data as species under a multi-species rule', () => {
+    const result = parseRle('x = 4, y = 2, rule = B3/S23/K3\nA.BC$2oD!');
+    expect(result.ok && result.pattern).toMatchObject({
+      cells: [
+        [0, 0],
+        [2, 0],
+        [3, 0],
+        [0, 1],
+        [1, 1],
+      ],
+      species: [0, 1, 2, 0, 0],
+    });
+  });
+
+  it('rejects a run count past the size limit before expanding it', () => {
+    expect(parseRle('x = 1, y = 1\n20000000o!').ok).toBe(false);
+    expect(parseRle('x = 1, y = 1\n20000000$o!').ok).toBe(false);
+  });
+
+  it('reports a missing header and unknown characters', () => {
+    expect(parseRle('bo$2bo$3o!').ok).toBe(false);
+    expect(parseRle('x = 1, y = 1\nz!').ok).toBe(false);
+  });
+});
+
+describe('parseCells', () => {
+  it('reads plaintext with a name comment', () => {
+    const result = parseCells('!Name: Glider\n.O.\n..O\nOOO\n');
+    expect(result).toEqual({ ok: true, pattern: { name: 'Glider', width: 3, height: 3, cells: GLIDER_CELLS } });
+  });
+
+  it('rejects stray characters', () => {
+    expect(parseCells('.O.\n.X.').ok).toBe(false);
+  });
+});
+
+describe('parsePattern', () => {
+  it('picks the reader from the text and refuses empty patterns', () => {
+    expect(parsePattern(GLIDER_RLE).ok).toBe(true);
+    expect(parsePattern('.O.\n..O\nOOO').ok).toBe(true);
+    expect(parsePattern('...\n...').ok).toBe(false);
+  });
+});
+
+describe('encodeRle', () => {
+  it('round-trips a glider through RLE', () => {
+    const state = gridOf(
+      GLIDER_CELLS.map(([x, y]) => [x + 2, y + 1]),
+      8,
+      6,
+    );
+    const text = encodeRle(state, 8, { minX: 2, minY: 1, maxX: 4, maxY: 3 }, 'B3/S23', { comment: 'Glider' });
+    expect(text).toBe('#C Glider\nx = 3, y = 3, rule = B3/S23\nbo$2bo$3o!\n');
+    const result = parseRle(text);
+    expect(result.ok && result.pattern.cells).toEqual(GLIDER_CELLS);
+  });
+
+  it('round-trips species as multi-state letters', () => {
+    const state = gridOf(
+      [
+        [0, 0],
+        [1, 0],
+        [3, 0],
+        [1, 1],
+      ],
+      4,
+      2,
+    );
+    const species = new Uint8Array([1, 0, 0, 1, 0, 3, 0, 0]);
+    const text = encodeRle(state, 4, { minX: 0, minY: 0, maxX: 3, maxY: 1 }, 'QuadLife', { species });
+    expect(text).toBe('x = 4, y = 2, rule = QuadLife\nBA.B$.D!\n');
+    const result = parseRle(text);
+    expect(result.ok && result.pattern.species).toEqual([1, 0, 1, 3]);
+  });
+
+  it('round-trips an HROT rule', () => {
+    const rule = 'R5,C0,M1,S34..58,B34..45,NM';
+    const text = encodeRle(gridOf([[0, 0]], 1, 1), 1, { minX: 0, minY: 0, maxX: 0, maxY: 0 }, rule);
+    const result = parseRle(text);
+    expect(result.ok && result.pattern.rule).toBe(rule);
+  });
+
+  it('writes blank rows as a single run of line ends', () => {
+    const state = gridOf(
+      [
+        [0, 0],
+        [0, 3],
+      ],
+      1,
+      4,
+    );
+    expect(encodeRle(state, 1, { minX: 0, minY: 0, maxX: 0, maxY: 3 }, 'B3/S23')).toContain('o3$o!');
+  });
+});
@@ -0,0 +1,258 @@
+import { isAlive } from '../simulation/engine';
+import type { CellBounds } from '../simulation/region';
+import { parseRulestring } from '../simulation/rulestring';
+
+export interface Pattern {
+  name?: string;
+  /** Rulestring from the RLE header, exactly as written. */
+  rule?: string;
+  width: number;
+  height: number;
+  /** Live cells as [x, y] offsets from the pattern's top-left corner. */
+  cells: Array<[number, number]>;
+  /** Species of each entry in `cells`, read from multi-state RLE under a multi-species rule. */
+  species?: number[];
+}
+
+export type PatternParseResult = { ok: true; pattern: Pattern } | { ok: false; error: string };
+
+/** Largest pattern edge accepted, so a malformed run count cannot allocate the world. */
+const MAX_PATTERN_EXTENT = 4096;
+
+const RLE_LINE_WIDTH = 70;
+
+const fail = (error: string): PatternParseResult => ({ ok: false, error });
+
+/** Species a header rule declares, or 1 when it has none or cannot be read; `:T…` grid suffixes are ignored. */
+const speciesOf = (rule: string | undefined): number => {
+  const result = rule ? parseRulestring(rule.split(':')[0]) : null;
+  return result?.ok ? result.rule.species : 1;
+};
+
+const measure = (cells: Array<[number, number]>): { width: number; height: number } => {
+  let width = 0;
+  let height = 0;
+  cells.forEach(([x, y]) => {
+    width = Math.max(width, x + 1);
+    height = Math.max(height, y + 1);
+  });
+  return { width, height };
+};
+
+/**
+ * Parses run-length encoded patterns as written by Golly and LifeWiki, including `#N` names
+ * and the `rule =` header. Under a multi-species rule the states A, B, … of multi-state data
+ * are live cells of the first, second, … species; otherwise only state A is live and later
+ * states are the dying embers of Generations rules, loaded as empty.
+ */
+export const parseRle = (text: string): PatternParseResult => {
+  let name: string | undefined;
+  let rule: string | undefined;
+  let declared: { width: number; height: number } | null = null;
+  const body: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.length === 0) {
+      continue;
+    }
+    if (line.startsWith('#')) {
+      if (line.startsWith('#N')) {
+        name = line.slice(2).trim() || undefined;
+      }
+      continue;
+    }
+    if (!declared && /^x\s*=/i.test(line)) {
+      // HROT rules such as "R5,C0,M1,S34..58,B34..45,NM" contain commas of their own, so the
+      // rule runs to the end of the line.
+      const ruleMatch = /,\s*rule\s*=(.*)$/i.exec(line);
+      const fields = new Map<string, string>();
+      (ruleMatch ? line.slice(0, ruleMatch.index) : line).split(',').forEach((field) => {
+        const [key, ...value] = field.split('=');
+        fields.set(key.trim().toLowerCase(), value.join('=').trim());
+      });
+      const width = Number(fields.get('x'));
+      const height = Number(fields.get('y'));
+      if (!Number.isInteger(width) || !Number.isInteger(height) || width < 0 || height < 0) {
+        return fail(`RLE header "${line}" needs whole-number x and y sizes.`);
+      }
+      declared = { width, height };
+      rule = ruleMatch?.[1].trim() || undefined;
+      continue;
+    }
+    body.push(line);
+  }
+
+  if (!declared) {
+    return fail('RLE is missing its "x = …, y = …" header line.');
+  }
+
+  const kinds = speciesOf(rule);
+  const cells: Array<[number, number]> = [];
+  const species: number[] = [];
+  let x = 0;
+  let y = 0;
+  let run = '';
+  const data = body.join('');
+  for (let i = 0; i < data.length; i += 1) {
+    const char = data.charAt(i);
+    if (/\d/.test(char)) {
+      run += char;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      continue;
+    }
+    const count = run.length > 0 ? Number(run) : 1;
+    run = '';
+    if (char === '!') {
+      break;
+    }
+    // Checked before the run is expanded, so a huge count fails at once instead of filling memory.
+    if ((char === '$' ? y : x) + count > MAX_PATTERN_EXTENT) {
+      return fail(`Pattern exceeds ${MAX_PATTERN_EXTENT} cells on a side.`);
+    }
+    if (char === '$') {
+      y += count;
+      x = 0;
+    } else if (char === 'b' || char === '.') {
+      x += count;
+    } else if (/[p-y]/.test(char)) {
+      // Two-letter token such as "pA" is a state above 24, never the live state.
+      i += 1;
+      x += count;
+    } else if (char === 'o' || /[A-X]/.test(char)) {
+      const state = char === 'o' ? 1 : char.charCodeAt(0) - 64;
+      if (state <= kinds) {
+        for (let n = 0; n < count; n += 1) {
+          cells.push([x + n, y]);
+          species.push(state - 1);
+        }
+      }
+      x += count;
+    } else {
+      return fail(`Unexpected "${char}" in RLE data.`);
+    }
+  }
+
+  const bounds = measure(cells);
+  return {
+    ok: true,
+    pattern: {
+      name,
+      rule,
+      width: Math.max(declared.width, bounds.width),
+      height: Math.max(declared.height, bounds.height),
+      cells,
+      species: kinds > 1 ? species : undefined,
+    },
+  };
+};
+
+/** Parses LifeWiki plaintext: `!` comment lines, `.` for dead cells and `O` or `*` for live ones. */
+export const parseCells = (text: string): PatternParseResult => {
+  let name: string | undefined;
+  const cells: Array<[number, number]> = [];
+  let y = 0;
+  let width = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line.startsWith('!')) {
+      const match = /^!\s*Name:\s*(.+)$/i.exec(line);
+      if (match) {
+        name = match[1].trim();
+      }
+      continue;
+    }
+    for (let x = 0; x < line.length; x += 1) {
+      const char = line.charAt(x);
+      if (char === 'O' || char === 'o' || char === '*') {
+        cells.push([x, y]);
+      } else if (char !== '.' && char !== ' ') {
+        return fail(`Unexpected "${char}" on line ${y + 1}; plaintext uses "." and "O".`);
+      }
+    }
+    width = Math.max(width, line.length);
+    y += 1;
+    if (width > MAX_PATTERN_EXTENT || y > MAX_PATTERN_EXTENT) {
+      return fail(`Pattern exceeds ${MAX_PATTERN_EXTENT} cells on a side.`);
+    }
+  }
+
+  const bounds = measure(cells);
+  return { ok: true, pattern: { name, width: bounds.width, height: bounds.height, cells } };
+};
+
+/** Picks the RLE or plaintext reader based on the text itself rather than a file extension. */
+export const parsePattern = (text: string): PatternParseResult => {
+  const result = /^\s*x\s*=/im.test(text) ? parseRle(text) : parseCells(text);
+  if (result.ok && result.pattern.cells.length === 0) {
+    return fail('The pattern has no live cells.');
+  }
+  return result;
+};
+
+/**
+ * Encodes the live cells of `state` inside `bounds` as RLE with a `rule =` header. Given
+ * `species`, cells are written as multi-state data: A for the first species, B for the second.
+ */
+export const encodeRle = (
+  state: Uint8Array,
+  cols: number,
+  bounds: CellBounds,
+  rule: string,
+  { comment, species }: { comment?: string; species?: Uint8Array } = {},
+): string => {
+  const width = bounds.maxX - bounds.minX + 1;
+  const height = bounds.maxY - bounds.minY + 1;
+  const tokens: string[] = [];
+  let pendingRows = 0;
+  const dead = species ? '.' : 'b';
+
+  const push = (count: number, tag: string): void => {
+    tokens.push(count > 1 ? `${count}${tag}` : tag);
+  };
+
+  for (let y = bounds.minY; y <= bounds.maxY; y += 1) {
+    const row: Array<[string, number]> = [];
+    for (let x = bounds.minX; x <= bounds.maxX; x += 1) {
+      const index = y * cols + x;
+      const live = species ? String.fromCharCode(65 + species[index]) : 'o';
+      const tag = isAlive(state[index]) ? live : dead;
+      const last = row[row.length - 1];
+      if (last && last[0] === tag) {
+        last[1] += 1;
+      } else {
+        row.push([tag, 1]);
+      }
+    }
+    if (row.length > 0 && row[row.length - 1][0] === dead) {
+      row.pop();
+    }
+    if (row.length === 0) {
+      pendingRows += 1;
+      continue;
+    }
+    if (tokens.length > 0) {
+      push(pendingRows + 1, '$');
+    }
+    pendingRows = 0;
+    row.forEach(([tag, count]) => push(count, tag));
+  }
+  tokens.push('!');
+
+  const lines: string[] = [];
+  let current = '';
+  tokens.forEach((token) => {
+    if (current.length + token.length > RLE_LINE_WIDTH) {
+      lines.push(current);
+      current = '';
+    }
+    current += token;
+  });
+  lines.push(current);
+
+  const header = `x = ${width}, y = ${height}, rule = ${rule}`;
+  return [...(comment ? [`#C ${comment}`] : []), header, ...lines].join('\n') + '\n';
+};
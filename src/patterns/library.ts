@@ -0,0 +1,74 @@
+import { RULES } from '../simulation/rules';
+import { formatRulestring, parseRulestring } from '../simulation/rulestring';
+import { type Pattern, parsePattern } from './formats';
+
+export interface LibraryPattern {
+  key: string;
+  pattern: Pattern;
+  /** `#C` comment lines from the file, joined. */
+  description: string;
+  /** Key into RULES of the rule named in the RLE header, falling back to classic Life. */
+  ruleKey: string;
+}
+
+export interface LibraryGroup {
+  ruleKey: string;
+  label: string;
+  patterns: LibraryPattern[];
+}
+
+/**
+ * Every `.rle` or `.cells` file in ./library becomes a catalogue entry, keyed by file name.
+ * To add a pattern, drop a file in that folder with `#N` name, `#C` notes and a `rule =` header;
+ * files that fail to parse are left out.
+ */
+const sources = import.meta.glob<string>('./library/*.{rle,cells}', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+const ruleKeyFor = (rule: string | undefined): string => {
+  if (!rule) {
+    return 'classic';
+  }
+  const result = parseRulestring(rule);
+  if (!result.ok) {
+    return 'classic';
+  }
+  const rulestring = formatRulestring(result.rule);
+  return Object.values(RULES).find((definition) => definition.rulestring === rulestring)?.key ?? 'classic';
+};
+
+const describe = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('#C') || (line.startsWith('!') && !/^!\s*Name:/i.test(line)))
+    .map((line) => line.replace(/^(#C|!)\s*/, ''))
+    .join(' ')
+    .trim();
+
+export const PATTERN_LIBRARY: Record<string, LibraryPattern> = Object.fromEntries(
+  Object.entries(sources).flatMap(([path, text]) => {
+    const key = path.replace(/^.*\//, '').replace(/\.[^.]+$/, '');
+    const result = parsePattern(text);
+    if (!result.ok) {
+      return [];
+    }
+    const pattern = { ...result.pattern, name: result.pattern.name ?? key };
+    const entry: LibraryPattern = { key, pattern, description: describe(text), ruleKey: ruleKeyFor(pattern.rule) };
+    return [[key, entry]];
+  }),
+);
+
+/** Library entries bucketed by rule, in the order the rules appear in RULES. */
+export const groupLibrary = (library: Record<string, LibraryPattern>): LibraryGroup[] =>
+  Object.values(RULES)
+    .map((rule) => ({
+      ruleKey: rule.key,
+      label: rule.label,
+      patterns: Object.values(library)
+        .filter((entry) => entry.ruleKey === rule.key)
+        .sort((a, b) => (a.pattern.name ?? a.key).localeCompare(b.pattern.name ?? b.key)),
+    }))
+    .filter((group) => group.patterns.length > 0);
@@ -0,0 +1,169 @@
+import type { GridState } from '../simulation/protocol';
+
+export type RasterMode = 'threshold' | 'dither';
+
+export interface RasterOptions {
+  mode: RasterMode;
+  /** Luminance from 0 to 1 at or above which a cell is born. */
+  threshold: number;
+  /** Seeds the dark parts of the picture instead of the light ones. */
+  invert: boolean;
+  /** Carries brightness into starting age and energy, so the picture shows in the glow too. */
+  mapLuminance: boolean;
+}
+
+export interface RasterSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/** Spacing of cell centres along a row and between rows, relative to each other. */
+export interface RasterPitch {
+  x: number;
+  y: number;
+}
+
+const SQUARE_PITCH: RasterPitch = { x: 1, y: 1 };
+
+/** Oldest age a bright cell starts at; the renderer's colour ramp saturates not far beyond. */
+const MAPPED_AGE_SPAN = 32;
+
+/** Energy at full brightness, matching the renderer's normalisation. */
+const MAPPED_ENERGY = 180;
+
+/** Age and energy given to every live cell when luminance is not mapped, as the brush does. */
+const PLAIN_AGE = 1;
+const PLAIN_ENERGY = 6;
+
+/** Text is drawn this many pixels per cell before being averaged down, for smoother edges. */
+const TEXT_OVERSAMPLE = 4;
+
+/** Typeface for text seeds; the heading face, which is heavy enough to survive downsampling. */
+export const TEXT_SEED_FONT = "'Space Grotesk', 'Manrope', sans-serif";
+
+/**
+ * Scales `source` to fit inside a `cols` × `rows` grid, centred with dark margins, and returns
+ * the luminance of each cell from 0 to 1. Transparent pixels count as dark. Cells spaced by
+ * `pitch` (e.g. triangles, half as far apart along a row as between rows) keep the picture's
+ * proportions on screen.
+ */
+export const sampleLuminance = (
+  source: RasterSource,
+  cols: number,
+  rows: number,
+  pitch: RasterPitch = SQUARE_PITCH,
+): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = cols;
+  canvas.height = rows;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  const luminance = new Float32Array(cols * rows);
+  if (!context || source.width === 0 || source.height === 0) {
+    return luminance;
+  }
+  const scale = Math.min((cols * pitch.x) / source.width, (rows * pitch.y) / source.height);
+  const width = (source.width * scale) / pitch.x;
+  const height = (source.height * scale) / pitch.y;
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, cols, rows);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source.image, (cols - width) / 2, (rows - height) / 2, width, height);
+
+  const { data } = context.getImageData(0, 0, cols, rows);
+  for (let i = 0; i < luminance.length; i += 1) {
+    const offset = i * 4;
+    luminance[i] = (0.2126 * data[offset] + 0.7152 * data[offset + 1] + 0.0722 * data[offset + 2]) / 255;
+  }
+  return luminance;
+};
+
+/** Draws `text` as large as fits, white on black, for seeding a grid of the given shape. */
+export const renderText = (
+  text: string,
+  cols: number,
+  rows: number,
+  pitch: RasterPitch = SQUARE_PITCH,
+  fontFamily = TEXT_SEED_FONT,
+): RasterSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(cols * pitch.x * TEXT_OVERSAMPLE));
+  canvas.height = Math.max(1, Math.round(rows * pitch.y * TEXT_OVERSAMPLE));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return { image: canvas, width: canvas.width, height: canvas.height };
+  }
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const probe = 100;
+  context.font = `700 ${probe}px ${fontFamily}`;
+  const widest = Math.max(1, ...lines.map((line) => context.measureText(line).width));
+  const lineHeight = 1.15;
+  const size = Math.min(
+    (canvas.width * 0.9 * probe) / widest,
+    (canvas.height * 0.8) / (Math.max(1, lines.length) * lineHeight),
+  );
+  context.font = `700 ${size}px ${fontFamily}`;
+  context.fillStyle = '#fff';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const top = canvas.height / 2 - ((lines.length - 1) * size * lineHeight) / 2;
+  lines.forEach((line, index) => {
+    context.fillText(line, canvas.width / 2, top + index * size * lineHeight);
+  });
+  return { image: canvas, width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Turns per-cell luminance into a fresh generation-0 grid, either by a hard threshold or by
+ * Floyd–Steinberg error diffusion so mid-tones come out as a proportional scatter of cells.
+ */
+export const rasterToGrid = (luminance: Float32Array, cols: number, rows: number, options: RasterOptions): GridState => {
+  const values = options.invert ? luminance.map((value) => 1 - value) : luminance.slice();
+  const ages = new Uint8Array(cols * rows);
+  const energy = new Float32Array(cols * rows);
+  let alive = 0;
+
+  for (let y = 0; y < rows; y += 1) {
+    for (let x = 0; x < cols; x += 1) {
+      const index = y * cols + x;
+      const value = values[index];
+      const live = value >= options.threshold;
+      if (options.mode === 'dither') {
+        const error = value - (live ? 1 : 0);
+        if (x + 1 < cols) {
+          values[index + 1] += (error * 7) / 16;
+        }
+        if (y + 1 < rows) {
+          if (x > 0) {
+            values[index + cols - 1] += (error * 3) / 16;
+          }
+          values[index + cols] += (error * 5) / 16;
+          if (x + 1 < cols) {
+            values[index + cols + 1] += error / 16;
+          }
+        }
+      }
+      if (!live) {
+        continue;
+      }
+      // Dithering leaves diffused error in `values`; the source brightness drives the glow.
+      const brightness = options.invert ? 1 - luminance[index] : luminance[index];
+      ages[index] = options.mapLuminance ? 1 + Math.round(brightness * (MAPPED_AGE_SPAN - 1)) : PLAIN_AGE;
+      energy[index] = options.mapLuminance ? brightness * MAPPED_ENERGY : PLAIN_ENERGY;
+      alive += 1;
+    }
+  }
+  return { cols, rows, ages, energy, stats: { generation: 0, alive, births: alive, fades: 0 } };
+};
+
+/** Seeds a `cols` × `rows` grid from a picture, keeping its proportions on cells spaced by `pitch`. */
+export const rasterSeed = (
+  source: RasterSource,
+  cols: number,
+  rows: number,
+  options: RasterOptions,
+  pitch: RasterPitch = SQUARE_PITCH,
+): GridState => rasterToGrid(sampleLuminance(source, cols, rows, pitch), cols, rows, options);
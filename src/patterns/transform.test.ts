@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Pattern } from './formats';
+import {
+  IDENTITY_ORIENTATION,
+  type Orientation,
+  flipOrientation,
+  orientPattern,
+  patternIndices,
+  patternPlacement,
+  rotateOrientation,
+} from './transform';
+
+/** An L-tromino with a tail, asymmetric under every rotation and reflection. */
+const PATTERN: Pattern = {
+  width: 3,
+  height: 2,
+  cells: [
+    [0, 0],
+    [0, 1],
+    [1, 1],
+    [2, 1],
+  ],
+};
+
+const picture = (pattern: Pattern): string[] => {
+  const rows = Array.from({ length: pattern.height }, () => Array<string>(pattern.width).fill('.'));
+  pattern.cells.forEach(([x, y]) => {
+    rows[y][x] = 'o';
+  });
+  return rows.map((row) => row.join(''));
+};
+
+const turned = (orientation: Orientation, times: number, direction: 1 | -1): Orientation => {
+  let result = orientation;
+  for (let i = 0; i < times; i += 1) {
+    result = rotateOrientation(result, direction);
+  }
+  return result;
+};
+
+describe('orientPattern', () => {
+  it('leaves the pattern alone in the identity orientation', () => {
+    expect(picture(orientPattern(PATTERN, IDENTITY_ORIENTATION))).toEqual(['o..', 'ooo']);
+  });
+
+  it('turns a quarter clockwise per turn', () => {
+    expect(picture(orientPattern(PATTERN, { turns: 1, flipped: false }))).toEqual(['oo', 'o.', 'o.']);
+    expect(picture(orientPattern(PATTERN, { turns: 2, flipped: false }))).toEqual(['ooo', '..o']);
+    expect(picture(orientPattern(PATTERN, { turns: 3, flipped: false }))).toEqual(['.o', '.o', 'oo']);
+  });
+
+  it('mirrors left to right after turning', () => {
+    expect(picture(orientPattern(PATTERN, { turns: 0, flipped: true }))).toEqual(['..o', 'ooo']);
+    expect(picture(orientPattern(PATTERN, { turns: 1, flipped: true }))).toEqual(['oo', '.o', '.o']);
+  });
+
+  it('keeps the name and rule', () => {
+    const named = { ...PATTERN, name: 'Hook', rule: 'B3/S23' };
+    expect(orientPattern(named, { turns: 3, flipped: true })).toMatchObject({ name: 'Hook', rule: 'B3/S23' });
+  });
+});
+
+describe('rotateOrientation and flipOrientation', () => {
+  it('comes back round after four turns either way', () => {
+    expect(turned(IDENTITY_ORIENTATION, 4, 1)).toEqual(IDENTITY_ORIENTATION);
+    expect(turned(IDENTITY_ORIENTATION, 4, -1)).toEqual(IDENTITY_ORIENTATION);
+  });
+
+  it('turns clockwise on screen even behind a mirror', () => {
+    const mirrored = flipOrientation(IDENTITY_ORIENTATION);
+    const onScreen = orientPattern(PATTERN, mirrored);
+    expect(picture(orientPattern(PATTERN, rotateOrientation(mirrored, 1)))).toEqual(
+      picture(orientPattern(onScreen, { turns: 1, flipped: false })),
+    );
+    expect(picture(orientPattern(PATTERN, rotateOrientation(mirrored, -1)))).toEqual(
+      picture(orientPattern(onScreen, { turns: 3, flipped: false })),
+    );
+  });
+
+  it('flips top to bottom on request', () => {
+    expect(picture(orientPattern(PATTERN, flipOrientation(IDENTITY_ORIENTATION, true)))).toEqual(['ooo', 'o..']);
+  });
+});
+
+describe('patternIndices', () => {
+  it('places the pattern at its origin and crops what falls off the grid', () => {
+    expect(patternIndices(PATTERN, 1, 1, 4, 3)).toEqual([5, 9, 10, 11]);
+    expect(patternIndices(PATTERN, 2, 2, 4, 3)).toEqual([10]);
+    expect(patternIndices(PATTERN, -1, 0, 4, 3)).toEqual([4, 5]);
+  });
+
+  it('keeps the species of each cell through turns and cropping', () => {
+    const mixed = orientPattern({ ...PATTERN, species: [0, 1, 2, 3] }, { turns: 2, flipped: false });
+    expect(patternPlacement(mixed, 0, 0, 3, 2)).toEqual({ cells: [5, 2, 1, 0], species: [0, 1, 2, 3] });
+    expect(patternPlacement(mixed, -1, 0, 3, 2)).toEqual({ cells: [4, 1, 0], species: [0, 1, 2] });
+    expect(patternPlacement(PATTERN, 0, 0, 3, 2)).toEqual({ cells: [0, 3, 4, 5] });
+  });
+});
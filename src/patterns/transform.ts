@@ -0,0 +1,73 @@
+import type { Pattern } from './formats';
+
+/** Quarter turns clockwise followed by an optional mirror across the vertical axis. */
+export interface Orientation {
+  turns: number;
+  flipped: boolean;
+}
+
+export const IDENTITY_ORIENTATION: Orientation = { turns: 0, flipped: false };
+
+/** Turns a quarter clockwise (1) or anticlockwise (-1) as seen on screen. */
+export const rotateOrientation = (orientation: Orientation, direction: 1 | -1): Orientation => ({
+  ...orientation,
+  // Behind a mirror the stored turn runs the other way.
+  turns: (orientation.turns + (orientation.flipped ? -direction : direction) + 4) % 4,
+});
+
+/** Mirrors left-right, or top-bottom when `vertical` (a horizontal mirror plus a half turn). */
+export const flipOrientation = (orientation: Orientation, vertical = false): Orientation => ({
+  turns: vertical ? (orientation.turns + 2) % 4 : orientation.turns,
+  flipped: !orientation.flipped,
+});
+
+/** Returns the pattern in the given orientation, re-anchored at (0, 0). */
+export const orientPattern = (pattern: Pattern, { turns, flipped }: Orientation): Pattern => {
+  let { width, height } = pattern;
+  let cells = pattern.cells.map(([x, y]): [number, number] => [x, y]);
+  for (let turn = 0; turn < turns; turn += 1) {
+    const rows = height;
+    cells = cells.map(([x, y]): [number, number] => [rows - 1 - y, x]);
+    [width, height] = [height, width];
+  }
+  if (flipped) {
+    cells = cells.map(([x, y]): [number, number] => [width - 1 - x, y]);
+  }
+  return { ...pattern, width, height, cells };
+};
+
+/** A pattern's cells on a grid; `species` runs parallel to `cells` for multi-species patterns. */
+export interface PatternPlacement {
+  cells: number[];
+  species?: number[];
+}
+
+/** Grid indices and species of the pattern's live cells with its top-left at (originX, originY), cropped to the grid. */
+export const patternPlacement = (
+  pattern: Pattern,
+  originX: number,
+  originY: number,
+  cols: number,
+  rows: number,
+): PatternPlacement => {
+  const cells: number[] = [];
+  const species: number[] = [];
+  pattern.cells.forEach(([px, py], cell) => {
+    const x = px + originX;
+    const y = py + originY;
+    if (x >= 0 && x < cols && y >= 0 && y < rows) {
+      cells.push(y * cols + x);
+      species.push(pattern.species?.[cell] ?? 0);
+    }
+  });
+  return pattern.species ? { cells, species } : { cells };
+};
+
+/** Grid indices of the pattern's live cells with its top-left at (originX, originY), cropped to the grid. */
+export const patternIndices = (
+  pattern: Pattern,
+  originX: number,
+  originY: number,
+  cols: number,
+  rows: number,
+): number[] => patternPlacement(pattern, originX, originY, cols, rows).cells;
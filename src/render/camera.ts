@@ -0,0 +1,77 @@
+import type { Container } from 'pixi.js';
+import { clamp } from '../utils/math';
+import type { Rect } from './layout';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+/**
+ * Pan/zoom transform between world space (where cells are laid out) and the screen:
+ * `screen = world * zoom + (x, y)`.
+ */
+export class Camera {
+  x = 0;
+
+  y = 0;
+
+  zoom = 1;
+
+  minZoom = 0.05;
+
+  maxZoom = 16;
+
+  apply(target: Container): void {
+    target.position.set(this.x, this.y);
+    target.scale.set(this.zoom);
+  }
+
+  toWorld(screenX: number, screenY: number): { x: number; y: number } {
+    return { x: (screenX - this.x) / this.zoom, y: (screenY - this.y) / this.zoom };
+  }
+
+  toScreen(worldX: number, worldY: number): { x: number; y: number } {
+    return { x: worldX * this.zoom + this.x, y: worldY * this.zoom + this.y };
+  }
+
+  /** World-space rectangle currently visible in the viewport. */
+  visibleRect(viewport: Viewport): Rect {
+    const topLeft = this.toWorld(0, 0);
+    return {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: viewport.width / this.zoom,
+      height: viewport.height / this.zoom,
+    };
+  }
+
+  panBy(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+
+  /** Zooms by `factor` while keeping the world point under (screenX, screenY) fixed. */
+  zoomAt(screenX: number, screenY: number, factor: number): void {
+    const anchor = this.toWorld(screenX, screenY);
+    this.zoom = clamp(this.zoom * factor, this.minZoom, this.maxZoom);
+    this.x = screenX - anchor.x * this.zoom;
+    this.y = screenY - anchor.y * this.zoom;
+  }
+
+  centerOn(worldX: number, worldY: number, viewport: Viewport): void {
+    this.x = viewport.width / 2 - worldX * this.zoom;
+    this.y = viewport.height / 2 - worldY * this.zoom;
+  }
+
+  fit(rect: Rect, viewport: Viewport, padding = 0): void {
+    const width = Math.max(1, rect.width);
+    const height = Math.max(1, rect.height);
+    const available = {
+      width: Math.max(1, viewport.width - padding * 2),
+      height: Math.max(1, viewport.height - padding * 2),
+    };
+    this.zoom = clamp(Math.min(available.width / width, available.height / height), this.minZoom, this.maxZoom);
+    this.centerOn(rect.x + rect.width / 2, rect.y + rect.height / 2, viewport);
+  }
+}
@@ -0,0 +1,113 @@
+import type { Application, FederatedPointerEvent } from 'pixi.js';
+import type { Camera } from './camera';
+
+export interface CameraControlsOptions {
+  /** Called after every camera change so the caller can re-apply the transform. */
+  onChange: () => void;
+  /** Decides whether a single-pointer drag pans; pinches always zoom. Defaults to always. */
+  canPan?: (event: FederatedPointerEvent) => boolean;
+}
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+/**
+ * Wires wheel zoom, drag-to-pan and two-finger pinch onto the Pixi stage.
+ * Returns a function that removes every listener again.
+ */
+export const attachCameraControls = (
+  app: Application,
+  camera: Camera,
+  { onChange, canPan = () => true }: CameraControlsOptions,
+): (() => void) => {
+  const pointers = new Map<number, { x: number; y: number }>();
+  let panning = false;
+  let pinch: { distance: number; midX: number; midY: number } | null = null;
+  let idleCursor: string | null = null;
+
+  const pinchState = (): { distance: number; midX: number; midY: number } | null => {
+    if (pointers.size < 2) {
+      return null;
+    }
+    const [a, b] = [...pointers.values()];
+    return {
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+    };
+  };
+
+  const handleWheel = (event: WheelEvent): void => {
+    event.preventDefault();
+    const bounds = app.canvas.getBoundingClientRect();
+    const delta = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaY;
+    camera.zoomAt(event.clientX - bounds.left, event.clientY - bounds.top, Math.exp(-delta * WHEEL_ZOOM_SPEED));
+    onChange();
+  };
+
+  const handlePointerDown = (event: FederatedPointerEvent): void => {
+    pointers.set(event.pointerId, { x: event.global.x, y: event.global.y });
+    if (pointers.size >= 2) {
+      panning = false;
+      pinch = pinchState();
+    } else {
+      panning = canPan(event);
+    }
+    if ((panning || pinch) && idleCursor === null) {
+      idleCursor = app.canvas.style.cursor;
+      app.canvas.style.cursor = 'grabbing';
+    }
+  };
+
+  const handlePointerMove = (event: FederatedPointerEvent): void => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous) {
+      return;
+    }
+    const current = { x: event.global.x, y: event.global.y };
+    pointers.set(event.pointerId, current);
+
+    if (pinch) {
+      const next = pinchState();
+      if (next && pinch.distance > 0) {
+        camera.zoomAt(pinch.midX, pinch.midY, next.distance / pinch.distance);
+        camera.panBy(next.midX - pinch.midX, next.midY - pinch.midY);
+        pinch = next;
+        onChange();
+      }
+      return;
+    }
+
+    if (panning) {
+      camera.panBy(current.x - previous.x, current.y - previous.y);
+      onChange();
+    }
+  };
+
+  const handlePointerUp = (event: FederatedPointerEvent): void => {
+    pointers.delete(event.pointerId);
+    pinch = pinchState();
+    if (pointers.size === 0) {
+      panning = false;
+      if (idleCursor !== null) {
+        app.canvas.style.cursor = idleCursor;
+        idleCursor = null;
+      }
+    }
+  };
+
+  app.canvas.addEventListener('wheel', handleWheel, { passive: false });
+  app.stage.on('pointerdown', handlePointerDown);
+  app.stage.on('pointermove', handlePointerMove);
+  app.stage.on('pointerup', handlePointerUp);
+  app.stage.on('pointerupoutside', handlePointerUp);
+  app.stage.on('pointercancel', handlePointerUp);
+
+  return () => {
+    app.canvas.removeEventListener('wheel', handleWheel);
+    app.stage.off('pointerdown', handlePointerDown);
+    app.stage.off('pointermove', handlePointerMove);
+    app.stage.off('pointerup', handlePointerUp);
+    app.stage.off('pointerupoutside', handlePointerUp);
+    app.stage.off('pointercancel', handlePointerUp);
+  };
+};
@@ -0,0 +1,268 @@
+import { Container, Particle, ParticleContainer } from 'pixi.js';
+import { decayStage, isAlive } from '../simulation/engine';
+import type { SimulationSnapshot } from '../simulation/protocol';
+import { clamp } from '../utils/math';
+import { createRandom } from '../utils/random';
+import { lerpColor, sampleGradient, speciesColors } from './color';
+import { type CellLayout, cellCenter } from './layout';
+import type { CellTextures } from './textures';
+import { DEFAULT_VISUAL_STYLE, type VisualStyle } from './visualStyle';
+
+export interface RenderPalette {
+  gradient: number[];
+  accentGlow: number;
+}
+
+/** Age scale on opacity and growth relative to the colour span, as tuned for the default style. */
+const AGE_OPACITY_RATIO = 16 / 9;
+const AGE_GROWTH_RATIO = 5;
+
+/** How much the age gradient shows through a species colour. */
+const SPECIES_AGE_TINT = 0.2;
+
+/**
+ * Cell size, in world pixels, the sprite scales were tuned at. Scales are kept relative to it
+ * and multiplied by `cellSize / REFERENCE_CELL_SIZE` when drawn, so fine grains stay crisp.
+ */
+const REFERENCE_CELL_SIZE = 25;
+
+/** Visuals below this alpha with nothing to show are parked instead of animated. */
+const IDLE_ALPHA = 0.003;
+const IDLE_SCALE = 0.24;
+
+/** Particles store colour as BGR with alpha in the top byte, matching Particle#tint. */
+const packColor = (tint: number, alpha: number): number => {
+  const bgr = ((tint & 0xff) << 16) | (tint & 0xff00) | ((tint >> 16) & 0xff);
+  return bgr + (((alpha * 255) | 0) << 24);
+};
+
+/**
+ * Draws every cell as a pair of particles (additive halo under a screen-blended core) in two
+ * batched ParticleContainers. Per-cell animation state lives in typed arrays so a frame is a
+ * single pass over flat memory rather than a walk over thousands of display objects.
+ */
+export class CellRenderer {
+  readonly view = new Container();
+
+  private readonly auraLayer: ParticleContainer<Particle>;
+
+  private readonly coreLayer: ParticleContainer<Particle>;
+
+  private textures: CellTextures;
+
+  private layoutConfig: CellLayout | null = null;
+
+  private auras: Particle[] = [];
+
+  private cores: Particle[] = [];
+
+  private alpha = new Float32Array(0);
+
+  private auraAlpha = new Float32Array(0);
+
+  private scale = new Float32Array(0);
+
+  private rotation = new Float32Array(0);
+
+  private jitter = new Float32Array(0);
+
+  /** Seeds each sprite's starting rotation and shimmer phase, so a seed fixes the look too. */
+  private seed: number;
+
+  private style: VisualStyle = DEFAULT_VISUAL_STYLE;
+
+  /** Sprite size relative to the reference cell size. */
+  private sizeFactor = 1;
+
+  constructor(textures: CellTextures, seed: number) {
+    this.textures = textures;
+    this.seed = seed;
+    const dynamicProperties = { position: false, rotation: true, vertex: true, color: true, uvs: false };
+    this.auraLayer = new ParticleContainer<Particle>({ dynamicProperties, texture: textures.halo });
+    this.auraLayer.blendMode = 'add';
+    this.coreLayer = new ParticleContainer<Particle>({ dynamicProperties, texture: textures.core });
+    this.coreLayer.blendMode = 'screen';
+    this.view.addChild(this.auraLayer, this.coreLayer);
+  }
+
+  get layout(): CellLayout | null {
+    return this.layoutConfig;
+  }
+
+  setLayout(layout: CellLayout): void {
+    const { cols, rows } = layout;
+    const length = cols * rows;
+    this.layoutConfig = layout;
+    this.sizeFactor = layout.cellSize / REFERENCE_CELL_SIZE;
+    const initialScale = 0.3 * this.sizeFactor;
+    this.auras = new Array<Particle>(length);
+    this.cores = new Array<Particle>(length);
+    this.alpha = new Float32Array(length);
+    this.auraAlpha = new Float32Array(length);
+    this.scale = new Float32Array(length).fill(0.3);
+    this.rotation = new Float32Array(length);
+    this.jitter = new Float32Array(length);
+    const random = createRandom(this.seed);
+
+    for (let y = 0; y < rows; y += 1) {
+      for (let x = 0; x < cols; x += 1) {
+        const index = y * cols + x;
+        const { x: px, y: py } = cellCenter(layout, x, y);
+        const rotation = random() * Math.PI * 2;
+        this.rotation[index] = rotation;
+        this.jitter[index] = random() * Math.PI * 2;
+
+        this.auras[index] = new Particle({
+          texture: this.textures.halo,
+          x: px,
+          y: py,
+          anchorX: 0.5,
+          anchorY: 0.5,
+          scaleX: initialScale * 1.75,
+          scaleY: initialScale * 1.75,
+          rotation,
+          alpha: 0,
+        });
+        this.cores[index] = new Particle({
+          texture: this.textures.core,
+          x: px,
+          y: py,
+          anchorX: 0.5,
+          anchorY: 0.5,
+          scaleX: initialScale,
+          scaleY: initialScale,
+          rotation,
+          alpha: 0,
+        });
+      }
+    }
+
+    this.auraLayer.particleChildren = this.auras;
+    this.coreLayer.particleChildren = this.cores;
+    this.auraLayer.update();
+    this.coreLayer.update();
+  }
+
+  setTextures(textures: CellTextures): void {
+    this.textures = textures;
+    this.auraLayer.texture = textures.halo;
+    this.coreLayer.texture = textures.core;
+    this.auras.forEach((particle) => {
+      particle.texture = textures.halo;
+    });
+    this.cores.forEach((particle) => {
+      particle.texture = textures.core;
+    });
+  }
+
+  /** Re-scatters rotations and shimmer phases in the same order `setLayout` draws them. */
+  setSeed(seed: number): void {
+    this.seed = seed;
+    const random = createRandom(seed);
+    for (let i = 0; i < this.cores.length; i += 1) {
+      const rotation = random() * Math.PI * 2;
+      this.rotation[i] = rotation;
+      this.jitter[i] = random() * Math.PI * 2;
+      this.cores[i].rotation = rotation;
+      this.auras[i].rotation = rotation;
+    }
+  }
+
+  setStyle(style: VisualStyle): void {
+    this.style = style;
+  }
+
+  update(
+    snapshot: SimulationSnapshot,
+    time: number,
+    pointer: { x: number; y: number } | null,
+    palette: RenderPalette,
+  ): void {
+    const layout = this.layoutConfig;
+    if (!layout || snapshot.cols !== layout.cols || snapshot.rows !== layout.rows) {
+      return;
+    }
+
+    const { state, energy, species, speciesCount, decayLength } = snapshot;
+    const { gradient, accentGlow } = palette;
+    const kinds = speciesCount > 1 ? speciesColors(gradient, speciesCount) : null;
+    const { auras, cores, alpha, auraAlpha, scale, rotation, jitter, style, sizeFactor } = this;
+    const { energyScale, ageSpan, energyTint, energySwell, coreSize, halo, shimmer } = style;
+    const pointerRadius = layout.cellSize * 12;
+
+    for (let i = 0; i < cores.length; i += 1) {
+      const age = state[i];
+      const alive = isAlive(age);
+      const stage = decayStage(age);
+      const core = cores[i];
+      const aura = auras[i];
+
+      if (!alive && stage === 0 && alpha[i] < IDLE_ALPHA && auraAlpha[i] < IDLE_ALPHA) {
+        if (alpha[i] !== 0 || auraAlpha[i] !== 0) {
+          alpha[i] = 0;
+          auraAlpha[i] = 0;
+          scale[i] = IDLE_SCALE;
+          rotation[i] = 0;
+          core.color = 0;
+          aura.color = 0;
+        }
+        continue;
+      }
+
+      const ember = stage > 0 ? 1 - stage / (decayLength + 1) : 0;
+      const energyNorm = clamp(energy[i] / energyScale, 0, 1);
+      const swell = energyNorm * energySwell;
+      // With no age span every live cell is drawn fully grown, for flat on/off looks.
+      const maturity = ageSpan > 0 ? age / ageSpan : 1;
+
+      const baseAlpha = alive ? 0.32 + Math.min(0.6, maturity / AGE_OPACITY_RATIO + swell * 0.5) : ember * 0.42;
+      alpha[i] += (baseAlpha - alpha[i]) * 0.08;
+
+      const harmonic = Math.sin(time * 0.0011 + jitter[i] + energyNorm * 2.8) * shimmer;
+      const neighborPulse = swell * 0.45 + harmonic * 0.08;
+      let targetScale = alive
+        ? coreSize + Math.min(0.75, maturity / AGE_GROWTH_RATIO) + neighborPulse
+        : IDLE_SCALE + ember * 0.32;
+
+      if (pointer) {
+        const distance = Math.hypot(core.x - pointer.x, core.y - pointer.y);
+        const influence = Math.max(0, 1 - distance / pointerRadius);
+        targetScale += influence * 0.25;
+      }
+
+      scale[i] += (targetScale - scale[i]) * 0.09;
+
+      const rotationTarget = alive ? harmonic * 0.3 * (0.45 + swell * 0.6) : 0;
+      rotation[i] += (rotationTarget - rotation[i]) * 0.07;
+
+      const auraTarget = (alive ? alpha[i] * (0.55 + swell * 0.7) : alpha[i] * ember * 0.4) * halo;
+      auraAlpha[i] += (auraTarget - auraAlpha[i]) * 0.1;
+
+      const ageColor = alive
+        ? sampleGradient(gradient, Math.min(1, maturity + energyNorm * energyTint))
+        : sampleGradient(gradient, 1 - ember * 0.45);
+      const kind = kinds ? kinds[species[i] % speciesCount] : -1;
+      const color = kind >= 0 ? lerpColor(kind, ageColor, SPECIES_AGE_TINT) : ageColor;
+      const auraBase = kind >= 0 ? kind : sampleGradient(gradient, Math.min(1, energyNorm + 0.35));
+      const auraColor = lerpColor(auraBase, accentGlow, 0.35);
+
+      const coreScale = scale[i] * sizeFactor;
+      core.scaleX = coreScale;
+      core.scaleY = coreScale;
+      core.rotation = rotation[i];
+      core.color = packColor(color, alpha[i]);
+
+      const auraScale = coreScale * (1.6 + swell * 0.75);
+      aura.scaleX = auraScale;
+      aura.scaleY = auraScale;
+      aura.rotation = rotation[i];
+      aura.color = packColor(auraColor, auraAlpha[i]);
+    }
+  }
+
+  destroy(): void {
+    this.view.destroy({ children: true });
+    this.auras = [];
+    this.cores = [];
+  }
+}
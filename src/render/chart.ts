@@ -0,0 +1,103 @@
+import type { StatsSample } from '../simulation/series';
+
+export interface ChartColors {
+  alive: string;
+  births: string;
+  fades: string;
+  ratio: string;
+  grid: string;
+}
+
+export interface ChartOptions {
+  logScale: boolean;
+  /** Index into `samples` to mark, or null for no crosshair. */
+  highlight: number | null;
+  colors: ChartColors;
+}
+
+const GRID_LINES = 4;
+
+const PADDING = 6;
+
+/**
+ * Plots alive, births and fades against a shared count axis (linear or log) and the alive
+ * ratio against a fixed 0–100% axis, one sample per horizontal step.
+ */
+export const drawChart = (canvas: HTMLCanvasElement, samples: readonly StatsSample[], options: ChartOptions): void => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  const { width, height } = canvas;
+  const { logScale, highlight, colors } = options;
+  context.clearRect(0, 0, width, height);
+
+  context.strokeStyle = colors.grid;
+  context.lineWidth = 1;
+  for (let line = 0; line <= GRID_LINES; line += 1) {
+    const y = Math.round(PADDING + ((height - PADDING * 2) * line) / GRID_LINES) + 0.5;
+    context.beginPath();
+    context.moveTo(0, y);
+    context.lineTo(width, y);
+    context.stroke();
+  }
+  if (samples.length === 0) {
+    return;
+  }
+
+  let peak = 1;
+  samples.forEach((sample) => {
+    peak = Math.max(peak, sample.alive, sample.births, sample.fades);
+  });
+  const scale = logScale
+    ? (value: number): number => Math.log10(1 + value) / Math.log10(1 + peak)
+    : (value: number): number => value / peak;
+  const xAt = (index: number): number =>
+    samples.length > 1 ? (index / (samples.length - 1)) * width : width / 2;
+  const yAt = (fraction: number): number => height - PADDING - fraction * (height - PADDING * 2);
+
+  const plot = (value: (sample: StatsSample) => number, color: string, dashed = false): void => {
+    context.strokeStyle = color;
+    context.lineWidth = Math.max(1, width / 400);
+    context.setLineDash(dashed ? [4, 4] : []);
+    context.beginPath();
+    samples.forEach((sample, index) => {
+      const x = xAt(index);
+      const y = yAt(value(sample));
+      if (index === 0) {
+        context.moveTo(x, y);
+      } else {
+        context.lineTo(x, y);
+      }
+    });
+    context.stroke();
+  };
+
+  plot((sample) => sample.ratio, colors.ratio, true);
+  plot((sample) => scale(sample.fades), colors.fades);
+  plot((sample) => scale(sample.births), colors.births);
+  plot((sample) => scale(sample.alive), colors.alive);
+  context.setLineDash([]);
+
+  if (highlight !== null && highlight >= 0 && highlight < samples.length) {
+    const sample = samples[highlight];
+    const x = xAt(highlight);
+    context.strokeStyle = colors.grid;
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, height);
+    context.stroke();
+    const marks: Array<[number, string]> = [
+      [scale(sample.alive), colors.alive],
+      [scale(sample.births), colors.births],
+      [scale(sample.fades), colors.fades],
+      [sample.ratio, colors.ratio],
+    ];
+    marks.forEach(([fraction, color]) => {
+      context.fillStyle = color;
+      context.beginPath();
+      context.arc(x, yAt(fraction), Math.max(2.5, width / 160), 0, Math.PI * 2);
+      context.fill();
+    });
+  }
+};
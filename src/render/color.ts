@@ -0,0 +1,102 @@
+import { clamp, lerp } from '../utils/math';
+
+export const hexToNumber = (hex: string): number => Number.parseInt(hex.replace('#', ''), 16);
+
+export const numberToHex = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+
+export const lerpColor = (a: number, b: number, t: number): number => {
+  const ar = (a >> 16) & 0xff;
+  const ag = (a >> 8) & 0xff;
+  const ab = a & 0xff;
+  const br = (b >> 16) & 0xff;
+  const bg = (b >> 8) & 0xff;
+  const bb = b & 0xff;
+
+  const rr = Math.round(lerp(ar, br, t));
+  const gg = Math.round(lerp(ag, bg, t));
+  const bb2 = Math.round(lerp(ab, bb, t));
+
+  return (rr << 16) + (gg << 8) + bb2;
+};
+
+export const sampleGradient = (colors: number[], t: number): number => {
+  if (colors.length === 0) {
+    return 0xffffff;
+  }
+  if (colors.length === 1) {
+    return colors[0];
+  }
+
+  const clamped = clamp(t, 0, 1) * (colors.length - 1);
+  const index = Math.floor(clamped);
+  const fraction = clamped - index;
+  const colorA = colors[index];
+  const colorB = colors[Math.min(colors.length - 1, index + 1)];
+
+  return lerpColor(colorA, colorB, fraction);
+};
+
+/**
+ * One colour per species on multi-species rules, taken from the middle of evenly split bands
+ * of the gradient so neither pale end is used twice.
+ */
+export const speciesColors = (gradient: number[], count: number): number[] =>
+  Array.from({ length: count }, (_, species) => sampleGradient(gradient, (species + 0.5) / count));
+
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  /** Opacity from 0 to 1. */
+  a: number;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_COLOR = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i;
+
+/** Reads `#rgb`, `#rrggbb`, `#rrggbbaa`, `rgb()` and `rgba()` colours; anything else gives null. */
+export const parseColor = (value: string): RgbaColor | null => {
+  const text = value.trim();
+  const hex = HEX_COLOR.exec(text);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((digit) => digit + digit).join('') : hex[1];
+    const channel = (index: number): number => Number.parseInt(digits.slice(index * 2, index * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+  const rgb = RGB_COLOR.exec(text);
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map((part) => clamp(Number(part), 0, 255));
+    return { r, g, b, a: rgb[4] === undefined ? 1 : clamp(Number(rgb[4]), 0, 1) };
+  }
+  return null;
+};
+
+const toHexPair = (channel: number): string => Math.round(channel).toString(16).padStart(2, '0');
+
+/** `#rrggbb` when opaque, `rgba()` otherwise, matching how the themes write colours. */
+export const formatColor = ({ r, g, b, a }: RgbaColor): string =>
+  a >= 1
+    ? `#${toHexPair(r)}${toHexPair(g)}${toHexPair(b)}`
+    : `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Number(a.toFixed(2))})`;
+
+/** Lays a translucent colour over an opaque one. */
+export const compositeColor = (top: RgbaColor, bottom: RgbaColor): RgbaColor => ({
+  r: lerp(bottom.r, top.r, top.a),
+  g: lerp(bottom.g, top.g, top.a),
+  b: lerp(bottom.b, top.b, top.a),
+  a: 1,
+});
+
+const relativeLuminance = ({ r, g, b }: RgbaColor): number => {
+  const linear = (channel: number): number => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+/** WCAG contrast ratio between two opaque colours, from 1 to 21. */
+export const contrastRatio = (a: RgbaColor, b: RgbaColor): number => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
@@ -0,0 +1,29 @@
+import { Graphics } from 'pixi.js';
+import type { CellBounds } from '../simulation/region';
+import { type CellLayout, cellRangeBounds } from './layout';
+
+/** Outlines groups of cells in world space, e.g. every instance of one census entry. */
+export class HighlightOverlay {
+  readonly view = new Graphics();
+
+  show(regions: CellBounds[], layout: CellLayout, color: number): void {
+    const { cellSize } = layout;
+    const margin = cellSize * 0.6;
+    this.view.clear();
+    regions.forEach((region) => {
+      const bounds = cellRangeBounds(layout, region.minX, region.minY, region.maxX, region.maxY);
+      this.view.rect(bounds.x - margin, bounds.y - margin, bounds.width + margin * 2, bounds.height + margin * 2);
+    });
+    this.view.stroke({ width: Math.max(1.5, cellSize * 0.18), color, alpha: 0.9 });
+    this.view.visible = regions.length > 0;
+  }
+
+  hide(): void {
+    this.view.clear();
+    this.view.visible = false;
+  }
+
+  destroy(): void {
+    this.view.destroy();
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { LatticeKind } from '../simulation/neighborhood';
+import { type CellLayout, cellAt, cellCenter, cellCoordinates, cellPolygon, latticeGridSize } from './layout';
+
+const LATTICES: LatticeKind[] = ['square', 'hex', 'triangle'];
+
+const layoutOf = (lattice: LatticeKind): CellLayout => ({
+  cols: 12,
+  rows: 10,
+  lattice,
+  cellSize: 8,
+  offsetX: 3,
+  offsetY: -5,
+});
+
+/** Cell under a point, with the -0 that rounding small negatives produces read as 0. */
+const cellUnder = (layout: CellLayout, worldX: number, worldY: number): { x: number; y: number } => {
+  const { x, y } = cellCoordinates(layout, worldX, worldY);
+  return { x: x + 0, y: y + 0 };
+};
+
+describe('cellCoordinates', () => {
+  it.each(LATTICES)('finds the cell back from its centre on the %s lattice', (lattice) => {
+    const layout = layoutOf(lattice);
+    for (let y = -3; y <= 6; y += 1) {
+      for (let x = -3; x <= 6; x += 1) {
+        const center = cellCenter(layout, x, y);
+        expect(cellUnder(layout, center.x, center.y)).toEqual({ x, y });
+      }
+    }
+  });
+
+  it.each(LATTICES)('finds the cell from just inside each corner on the %s lattice', (lattice) => {
+    const layout = layoutOf(lattice);
+    for (let y = 0; y <= 3; y += 1) {
+      for (let x = 0; x <= 3; x += 1) {
+        const corners = cellPolygon(layout, x, y, 0.1);
+        for (let i = 0; i < corners.length; i += 2) {
+          expect(cellUnder(layout, corners[i], corners[i + 1])).toEqual({ x, y });
+        }
+      }
+    }
+  });
+});
+
+describe('cellAt', () => {
+  it('returns null off the grid', () => {
+    const layout = layoutOf('hex');
+    const inside = cellCenter(layout, 11, 9);
+    const outside = cellCenter(layout, 12, 9);
+    expect(cellAt(layout, inside.x, inside.y)).toEqual({ x: 11, y: 9 });
+    expect(cellAt(layout, outside.x, outside.y)).toBeNull();
+  });
+});
+
+describe('latticeGridSize', () => {
+  it('fits whole cells into the area', () => {
+    expect(latticeGridSize('square', 105, 52, 10)).toEqual({ cols: 10, rows: 5 });
+  });
+
+  it('keeps hex rows and triangle rows and columns even so wrapped edges line up', () => {
+    const hex = latticeGridSize('hex', 400, 300, 10);
+    expect(hex.rows % 2).toBe(0);
+    const triangle = latticeGridSize('triangle', 400, 300, 10);
+    expect(triangle.cols % 2).toBe(0);
+    expect(triangle.rows % 2).toBe(0);
+  });
+});
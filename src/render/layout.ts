@@ -0,0 +1,181 @@
+import { type LatticeKind, latticeVariant } from '../simulation/neighborhood';
+
+export interface CellLayout {
+  cols: number;
+  rows: number;
+  lattice: LatticeKind;
+  /** Width of a square or hex cell, or the side of a triangle. */
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const ROW_HEIGHT = Math.sqrt(3) / 2;
+
+/** Distance between neighbouring cell centres along a row and between rows, in cell sizes. */
+export const LATTICE_PITCH: Record<LatticeKind, { x: number; y: number }> = {
+  square: { x: 1, y: 1 },
+  hex: { x: 1, y: ROW_HEIGHT },
+  triangle: { x: 0.5, y: ROW_HEIGHT },
+};
+
+/**
+ * How far a lattice's rows stick out past `cols` pitches, in cell sizes: odd hex rows sit half a
+ * cell right, and a row of triangles is half a side wider than its column pitch.
+ */
+const LATTICE_OVERHANG: Record<LatticeKind, number> = {
+  square: 0,
+  hex: 0.5,
+  triangle: 0.5,
+};
+
+/** Grid size that fits `width` × `height` at `cellSize`, even where the lattice needs it to wrap. */
+export const latticeGridSize = (
+  lattice: LatticeKind,
+  width: number,
+  height: number,
+  cellSize: number,
+): { cols: number; rows: number } => {
+  const pitch = LATTICE_PITCH[lattice];
+  const cols = Math.floor((width / cellSize - LATTICE_OVERHANG[lattice]) / pitch.x);
+  const rows = Math.floor(height / (cellSize * pitch.y));
+  // Hex neighbours depend on row parity and triangles on column parity too, so an odd count
+  // would join mismatched cells across a wrapped edge.
+  return {
+    cols: lattice === 'triangle' ? cols - (cols & 1) : cols,
+    rows: lattice === 'square' ? rows : rows - (rows & 1),
+  };
+};
+
+export const cellCenter = (layout: CellLayout, x: number, y: number): { x: number; y: number } => {
+  const { lattice, cellSize, offsetX, offsetY } = layout;
+  const pitch = LATTICE_PITCH[lattice];
+  const rowY = offsetY + y * pitch.y * cellSize;
+  switch (lattice) {
+    case 'hex':
+      return { x: offsetX + (x + (y & 1) / 2) * cellSize, y: rowY };
+    case 'triangle': {
+      // A triangle's centroid sits a third of the way up from its base.
+      const shift = (pitch.y * cellSize) / 6;
+      return { x: offsetX + x * pitch.x * cellSize, y: latticeVariant(lattice, x, y) === 0 ? rowY + shift : rowY - shift };
+    }
+    default:
+      return { x: offsetX + x * cellSize, y: rowY };
+  }
+};
+
+/** Cell coordinates under a world-space point; may fall outside the grid. */
+export const cellCoordinates = (layout: CellLayout, worldX: number, worldY: number): { x: number; y: number } => {
+  const { lattice, cellSize, offsetX, offsetY } = layout;
+  const pitch = LATTICE_PITCH[lattice];
+  const u = (worldX - offsetX) / (pitch.x * cellSize);
+  const v = (worldY - offsetY) / (pitch.y * cellSize);
+
+  switch (lattice) {
+    case 'hex': {
+      // Round in cube coordinates, where the nearest hex centre is easy to find, then convert
+      // back to offset rows.
+      const r = v;
+      const q = u - r / 2;
+      let rq = Math.round(q);
+      let rr = Math.round(r);
+      const rs = Math.round(-q - r);
+      const dq = Math.abs(rq - q);
+      const dr = Math.abs(rr - r);
+      const ds = Math.abs(rs + q + r);
+      if (dq > dr && dq > ds) {
+        rq = -rr - rs;
+      } else if (dr > ds) {
+        rr = -rq - rs;
+      }
+      return { x: rq + (rr - (rr & 1)) / 2, y: rr };
+    }
+    case 'triangle': {
+      const y = Math.round(v);
+      // 0 at the top of the row, 1 at the bottom; triangles are `depth` half-sides wide there.
+      const depth = v - y + 0.5;
+      const x = Math.round(u);
+      const halfWidth = latticeVariant(lattice, x, y) === 0 ? depth : 1 - depth;
+      if (Math.abs(u - x) <= halfWidth) {
+        return { x, y };
+      }
+      return { x: u > x ? x + 1 : x - 1, y };
+    }
+    default:
+      return { x: Math.round(u), y: Math.round(v) };
+  }
+};
+
+/** Maps a world-space point to the cell beneath it, or null when it lies outside the grid. */
+export const cellAt = (layout: CellLayout, worldX: number, worldY: number): { x: number; y: number } | null => {
+  const { x, y } = cellCoordinates(layout, worldX, worldY);
+  if (x < 0 || x >= layout.cols || y < 0 || y >= layout.rows) {
+    return null;
+  }
+  return { x, y };
+};
+
+/** Corners of the cell at (x, y) as flat x, y pairs, shrunk towards its centre by `inset`. */
+export const cellPolygon = (layout: CellLayout, x: number, y: number, inset = 0): number[] => {
+  const { lattice, cellSize } = layout;
+  const center = cellCenter(layout, x, y);
+  const scale = (1 - inset) * cellSize;
+  let corners: Array<[number, number]>;
+  switch (lattice) {
+    case 'hex': {
+      // Pointy-topped, with a circumradius of 1 / √3 cell widths.
+      const radius = 1 / Math.sqrt(3);
+      corners = [0, 1, 2, 3, 4, 5].map((corner) => {
+        const angle = Math.PI / 6 + (corner * Math.PI) / 3;
+        return [Math.cos(angle) * radius, Math.sin(angle) * radius];
+      });
+      break;
+    }
+    case 'triangle': {
+      const apex = latticeVariant(lattice, x, y) === 0 ? -1 : 1;
+      const third = ROW_HEIGHT / 3;
+      corners = [
+        [0, apex * third * 2],
+        [0.5, -apex * third],
+        [-0.5, -apex * third],
+      ];
+      break;
+    }
+    default:
+      corners = [
+        [-0.5, -0.5],
+        [0.5, -0.5],
+        [0.5, 0.5],
+        [-0.5, 0.5],
+      ];
+  }
+  return corners.flatMap(([cx, cy]) => [center.x + cx * scale, center.y + cy * scale]);
+};
+
+/** World-space rectangle covering the cells from (minX, minY) to (maxX, maxY) inclusive. */
+export const cellRangeBounds = (
+  layout: CellLayout,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+): Rect => {
+  const { lattice, cellSize, offsetX, offsetY } = layout;
+  const pitch = LATTICE_PITCH[lattice];
+  return {
+    x: offsetX + (minX * pitch.x - 0.5) * cellSize,
+    y: offsetY + (minY - 0.5) * pitch.y * cellSize,
+    width: ((maxX - minX + 1) * pitch.x + LATTICE_OVERHANG[lattice]) * cellSize,
+    height: (maxY - minY + 1) * pitch.y * cellSize,
+  };
+};
+
+export const worldBounds = (layout: CellLayout): Rect =>
+  cellRangeBounds(layout, 0, 0, layout.cols - 1, layout.rows - 1);
@@ -0,0 +1,62 @@
+import { isAlive } from '../simulation/engine';
+import type { SimulationSnapshot } from '../simulation/protocol';
+import { type CellLayout, type Rect, worldBounds } from './layout';
+
+export interface MinimapColors {
+  cell: number;
+  frame: string;
+}
+
+/**
+ * Paints a nearest-cell thumbnail of the whole universe and outlines the part the camera sees.
+ * Returns the world rectangle the minimap covers so clicks can be mapped back.
+ */
+export const drawMinimap = (
+  canvas: HTMLCanvasElement,
+  snapshot: SimulationSnapshot,
+  layout: CellLayout,
+  visible: Rect,
+  colors: MinimapColors,
+): Rect | null => {
+  const context = canvas.getContext('2d');
+  if (!context || snapshot.cols !== layout.cols || snapshot.rows !== layout.rows) {
+    return null;
+  }
+
+  const { width, height } = canvas;
+  const image = context.createImageData(width, height);
+  const data = image.data;
+  const red = (colors.cell >> 16) & 0xff;
+  const green = (colors.cell >> 8) & 0xff;
+  const blue = colors.cell & 0xff;
+
+  for (let py = 0; py < height; py += 1) {
+    const cy = Math.floor((py / height) * layout.rows);
+    for (let px = 0; px < width; px += 1) {
+      const cx = Math.floor((px / width) * layout.cols);
+      const offset = (py * width + px) * 4;
+      if (isAlive(snapshot.state[cy * layout.cols + cx])) {
+        data[offset] = red;
+        data[offset + 1] = green;
+        data[offset + 2] = blue;
+        data[offset + 3] = 235;
+      } else {
+        data[offset + 3] = 0;
+      }
+    }
+  }
+  context.putImageData(image, 0, 0);
+
+  const world = worldBounds(layout);
+  const scaleX = width / world.width;
+  const scaleY = height / world.height;
+  context.strokeStyle = colors.frame;
+  context.lineWidth = 1.5;
+  context.strokeRect(
+    (visible.x - world.x) * scaleX,
+    (visible.y - world.y) * scaleY,
+    visible.width * scaleX,
+    visible.height * scaleY,
+  );
+  return world;
+};
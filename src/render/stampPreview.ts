@@ -0,0 +1,51 @@
+import { Graphics } from 'pixi.js';
+import type { Pattern } from '../patterns/formats';
+import { type CellLayout, cellPolygon, cellRangeBounds } from './layout';
+
+/**
+ * Translucent ghost of a pattern drawn over the grid in world space, showing where a stamp
+ * will land. Geometry is only rebuilt when the pattern, position, layout or colour changes.
+ */
+export class StampPreview {
+  readonly view = new Graphics();
+
+  private drawn: { pattern: Pattern; originX: number; originY: number; layout: CellLayout; color: number } | null =
+    null;
+
+  show(pattern: Pattern, originX: number, originY: number, layout: CellLayout, color: number): void {
+    const drawn = this.drawn;
+    this.view.visible = true;
+    if (
+      drawn
+      && drawn.pattern === pattern
+      && drawn.originX === originX
+      && drawn.originY === originY
+      && drawn.layout === layout
+      && drawn.color === color
+    ) {
+      return;
+    }
+    this.drawn = { pattern, originX, originY, layout, color };
+
+    const { cellSize } = layout;
+    const bounds = cellRangeBounds(layout, originX, originY, originX + pattern.width - 1, originY + pattern.height - 1);
+    this.view.clear();
+    this.view
+      .rect(bounds.x, bounds.y, bounds.width, bounds.height)
+      .fill({ color, alpha: 0.06 })
+      .stroke({ width: Math.max(1, cellSize * 0.08), color, alpha: 0.45 });
+    pattern.cells.forEach(([x, y]) => {
+      this.view.poly(cellPolygon(layout, originX + x, originY + y, 0.24));
+    });
+    this.view.fill({ color, alpha: 0.5 });
+  }
+
+  hide(): void {
+    this.view.visible = false;
+  }
+
+  destroy(): void {
+    this.view.destroy();
+    this.drawn = null;
+  }
+}
@@ -0,0 +1,87 @@
+import { Texture } from 'pixi.js';
+import { clamp } from '../utils/math';
+import type { RandomSource } from '../utils/random';
+
+export interface CellPalette {
+  cellCore: string;
+  cellMid: string;
+  cellEdge: string;
+  haloColor: string;
+}
+
+export interface CellTextures {
+  core: Texture;
+  halo: Texture;
+}
+
+export const destroyCellTextures = (textures: CellTextures): void => {
+  textures.core.destroy(true);
+  textures.halo.destroy(true);
+};
+
+export const createCellTextures = (theme: CellPalette, random: RandomSource): CellTextures => {
+  const baseSize = 128;
+  const canvas = document.createElement('canvas');
+  canvas.width = baseSize;
+  canvas.height = baseSize;
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    return { core: Texture.WHITE, halo: Texture.WHITE };
+  }
+
+  const gradient = context.createRadialGradient(
+    baseSize / 2,
+    baseSize / 2,
+    baseSize * 0.1,
+    baseSize / 2,
+    baseSize / 2,
+    baseSize * 0.48,
+  );
+  gradient.addColorStop(0, theme.cellCore);
+  gradient.addColorStop(0.45, theme.cellMid);
+  gradient.addColorStop(1, theme.cellEdge);
+
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, baseSize, baseSize);
+
+  const imageData = context.getImageData(0, 0, baseSize, baseSize);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const noise = (random() - 0.5) * 12;
+    data[i] = clamp(data[i] + noise * 1.35, 0, 255);
+    data[i + 1] = clamp(data[i + 1] + noise * 0.7, 0, 255);
+    data[i + 2] = clamp(data[i + 2] + noise * 1.6, 0, 255);
+  }
+  context.putImageData(imageData, 0, 0);
+
+  const core = Texture.from(canvas);
+
+  const haloSize = baseSize * 2;
+  const haloCanvas = document.createElement('canvas');
+  haloCanvas.width = haloSize;
+  haloCanvas.height = haloSize;
+  const haloContext = haloCanvas.getContext('2d');
+
+  if (!haloContext) {
+    return { core, halo: core };
+  }
+
+  const haloGradient = haloContext.createRadialGradient(
+    haloSize / 2,
+    haloSize / 2,
+    baseSize * 0.35,
+    haloSize / 2,
+    haloSize / 2,
+    haloSize / 2,
+  );
+  haloGradient.addColorStop(0, theme.haloColor);
+  haloGradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+  haloContext.fillStyle = haloGradient;
+  haloContext.fillRect(0, 0, haloSize, haloSize);
+
+  const halo = Texture.from(haloCanvas);
+
+  return { core, halo };
+};
@@ -0,0 +1,215 @@
+import { compositeColor, contrastRatio, parseColor } from './color';
+
+/**
+ * Everything a colour theme sets: the CSS backdrop and panel chrome, the cell sprite colours
+ * baked into textures, and the gradient cells move through as they age.
+ */
+export interface ThemeDefinition {
+  label: string;
+  background: string;
+  backgroundSecondary: string;
+  accent: string;
+  accentSoft: string;
+  accentGlow: string;
+  text: string;
+  textMuted: string;
+  panel: string;
+  panelBorder: string;
+  /** Solid colour behind stills, clips and thumbnails, close to the darkest background stop. */
+  backdrop: string;
+  gradient: string[];
+  cellCore: string;
+  cellMid: string;
+  cellEdge: string;
+  haloColor: string;
+}
+
+/** Publishes a theme's page colours as the CSS custom properties the stylesheet reads. */
+export const applyThemeToDocument = (theme: ThemeDefinition, root: HTMLElement = document.documentElement): void => {
+  root.style.setProperty('--background-gradient', theme.background);
+  root.style.setProperty('--background-overlay', theme.backgroundSecondary);
+  root.style.setProperty('--accent', theme.accent);
+  root.style.setProperty('--accent-soft', theme.accentSoft);
+  root.style.setProperty('--accent-glow', theme.accentGlow);
+  root.style.setProperty('--panel-background', theme.panel);
+  root.style.setProperty('--panel-border', theme.panelBorder);
+  root.style.setProperty('--text-primary', theme.text);
+  root.style.setProperty('--text-muted', theme.textMuted);
+};
+
+/** Themes that ship with the app; user themes are stored alongside and never replace these. */
+export const THEMES: Record<string, ThemeDefinition> = {
+  aurora: {
+    label: 'Aurora Bloom',
+    background:
+      'radial-gradient(circle at 18% 12%, rgba(18, 8, 43, 0.96) 0%, rgba(7, 12, 36, 0.95) 45%, rgba(1, 2, 8, 0.94) 100%)',
+    backgroundSecondary:
+      'conic-gradient(from 120deg at 70% 40%, rgba(99, 234, 255, 0.18), rgba(255, 118, 214, 0.12), rgba(41, 19, 89, 0.25))',
+    accent: '#ffbaf9',
+    accentSoft: '#7ddff9',
+    accentGlow: '#ffe0ff',
+    text: '#f8f7ff',
+    textMuted: 'rgba(218, 223, 255, 0.72)',
+    panel: 'rgba(12, 16, 32, 0.62)',
+    panelBorder: 'rgba(163, 203, 255, 0.25)',
+    backdrop: '#070c24',
+    gradient: ['#a8f9ff', '#63d9ff', '#6a7bff', '#b76dff', '#ff6dd6', '#ffe6f3'],
+    cellCore: '#fdfcff',
+    cellMid: '#c7f1ff',
+    cellEdge: '#6abaff',
+    haloColor: 'rgba(120, 204, 255, 0.78)',
+  },
+  noir: {
+    label: 'Midnight Vellum',
+    background:
+      'radial-gradient(circle at 80% 15%, rgba(30, 8, 32, 0.92), rgba(9, 6, 22, 0.94) 52%, rgba(2, 1, 9, 0.95) 100%)',
+    backgroundSecondary:
+      'conic-gradient(from 220deg at 25% 70%, rgba(255, 187, 92, 0.08), rgba(107, 210, 255, 0.14), rgba(36, 16, 64, 0.23))',
+    accent: '#ffc978',
+    accentSoft: '#ffdcb0',
+    accentGlow: '#fff4d3',
+    text: '#f5f0ff',
+    textMuted: 'rgba(228, 210, 255, 0.7)',
+    panel: 'rgba(19, 12, 33, 0.68)',
+    panelBorder: 'rgba(255, 211, 158, 0.22)',
+    backdrop: '#09061a',
+    gradient: ['#fff3dd', '#fbc488', '#ff956b', '#ff5c86', '#7c5bff', '#c9b2ff'],
+    cellCore: '#fff8f0',
+    cellMid: '#ffdcb2',
+    cellEdge: '#ffa56d',
+    haloColor: 'rgba(255, 174, 102, 0.78)',
+  },
+  lagoon: {
+    label: 'Celestial Lagoon',
+    background:
+      'radial-gradient(circle at 50% 50%, rgba(4, 32, 45, 0.95) 0%, rgba(4, 16, 28, 0.96) 45%, rgba(1, 5, 12, 0.98) 100%)',
+    backgroundSecondary:
+      'conic-gradient(from 160deg at 60% 65%, rgba(40, 255, 220, 0.15), rgba(28, 87, 214, 0.18), rgba(10, 33, 58, 0.38))',
+    accent: '#59ffd6',
+    accentSoft: '#88ffe4',
+    accentGlow: '#ddfff5',
+    text: '#edffff',
+    textMuted: 'rgba(198, 249, 255, 0.76)',
+    panel: 'rgba(8, 23, 26, 0.65)',
+    panelBorder: 'rgba(96, 255, 234, 0.22)',
+    backdrop: '#04101c',
+    gradient: ['#9fffdc', '#5ce6ff', '#5b9dff', '#6b6eff', '#9b5cff', '#ff99f8'],
+    cellCore: '#f4fff8',
+    cellMid: '#b9fff0',
+    cellEdge: '#4dd6ff',
+    haloColor: 'rgba(86, 255, 227, 0.78)',
+  },
+};
+
+/** Colours the renderer reads as packed integers, so they must be opaque `#rrggbb`. */
+export const SOLID_THEME_FIELDS = ['accent', 'accentSoft', 'accentGlow', 'backdrop'] as const;
+
+/** Colours only CSS and canvas gradients see, which may be translucent. */
+export const TRANSLUCENT_THEME_FIELDS = [
+  'text',
+  'textMuted',
+  'panel',
+  'panelBorder',
+  'cellCore',
+  'cellMid',
+  'cellEdge',
+  'haloColor',
+] as const;
+
+/** Full CSS `background-image` values layered behind the canvas. */
+export const BACKGROUND_THEME_FIELDS = ['background', 'backgroundSecondary'] as const;
+
+export const MIN_GRADIENT_STOPS = 2;
+export const MAX_GRADIENT_STOPS = 8;
+
+/** WCAG AA for body text, and the looser large-text level for the muted captions. */
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_MUTED_CONTRAST = 3;
+
+const SOLID_COLOR = /^#[0-9a-f]{6}$/i;
+
+export type ThemeParseResult = { ok: true; theme: ThemeDefinition } | { ok: false; error: string };
+
+const fail = (error: string): ThemeParseResult => ({ ok: false, error });
+
+const isCssBackground = (value: string): boolean =>
+  typeof CSS === 'undefined' || CSS.supports('background-image', value);
+
+/** Checks an imported object field by field and keeps only the fields a theme has. */
+export const parseTheme = (value: unknown): ThemeParseResult => {
+  if (typeof value !== 'object' || value === null) {
+    return fail('A theme must be a JSON object.');
+  }
+  const source = value as Record<string, unknown>;
+  const text = (key: string): string | null => (typeof source[key] === 'string' ? (source[key] as string) : null);
+
+  const label = text('label')?.trim();
+  if (!label) {
+    return fail('The theme needs a label.');
+  }
+  const theme: Partial<ThemeDefinition> = { label };
+  for (const key of SOLID_THEME_FIELDS) {
+    const color = text(key);
+    if (!color || !SOLID_COLOR.test(color)) {
+      return fail(`“${key}” must be a #rrggbb colour.`);
+    }
+    theme[key] = color;
+  }
+  for (const key of TRANSLUCENT_THEME_FIELDS) {
+    const color = text(key);
+    if (!color || !parseColor(color)) {
+      return fail(`“${key}” must be a hex, rgb() or rgba() colour.`);
+    }
+    theme[key] = color;
+  }
+  for (const key of BACKGROUND_THEME_FIELDS) {
+    const background = text(key);
+    if (!background || !isCssBackground(background)) {
+      return fail(`“${key}” must be a CSS background image such as a gradient.`);
+    }
+    theme[key] = background;
+  }
+  const { gradient } = source;
+  if (
+    !Array.isArray(gradient) ||
+    gradient.length < MIN_GRADIENT_STOPS ||
+    gradient.length > MAX_GRADIENT_STOPS ||
+    !gradient.every((stop) => typeof stop === 'string' && SOLID_COLOR.test(stop))
+  ) {
+    return fail(`“gradient” must list ${MIN_GRADIENT_STOPS} to ${MAX_GRADIENT_STOPS} #rrggbb colours.`);
+  }
+  theme.gradient = [...gradient] as string[];
+  return { ok: true, theme: theme as ThemeDefinition };
+};
+
+export const parseThemeJson = (json: string): ThemeParseResult => {
+  try {
+    return parseTheme(JSON.parse(json));
+  } catch {
+    return fail('The file is not valid JSON.');
+  }
+};
+
+export interface ThemeContrast {
+  text: number;
+  textMuted: number;
+}
+
+/**
+ * Contrast of the primary and muted text against the panels, with the translucent panel laid
+ * over the backdrop first since that is roughly what shows through it.
+ */
+export const panelContrast = (theme: ThemeDefinition): ThemeContrast | null => {
+  const backdrop = parseColor(theme.backdrop);
+  const panel = parseColor(theme.panel);
+  const text = parseColor(theme.text);
+  const textMuted = parseColor(theme.textMuted);
+  if (!backdrop || !panel || !text || !textMuted) {
+    return null;
+  }
+  const surface = compositeColor(panel, backdrop);
+  return {
+    text: contrastRatio(compositeColor(text, surface), surface),
+    textMuted: contrastRatio(compositeColor(textMuted, surface), surface),
+  };
+};
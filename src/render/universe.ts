@@ -0,0 +1,77 @@
+import type { LatticeKind } from '../simulation/neighborhood';
+import { clamp } from '../utils/math';
+import { type CellLayout, LATTICE_PITCH, latticeGridSize, worldBounds } from './layout';
+
+export interface GrainDefinition {
+  key: string;
+  label: string;
+  /** Screen area, in square pixels, budgeted per cell. */
+  cellArea: number;
+}
+
+export const GRAINS: Record<string, GrainDefinition> = {
+  sculpture: { key: 'sculpture', label: 'Sculpture', cellArea: 650 },
+  fine: { key: 'fine', label: 'Fine Weave', cellArea: 160 },
+  dust: { key: 'dust', label: 'Stardust', cellArea: 40 },
+  mist: { key: 'mist', label: 'Nebular Mist', cellArea: 14 },
+};
+
+export interface UniverseDefinition {
+  key: string;
+  label: string;
+  /** Fixed logical size; omitted means the grid is sized from the viewport and grain. */
+  cols?: number;
+  rows?: number;
+}
+
+export const UNIVERSES: Record<string, UniverseDefinition> = {
+  canvas: { key: 'canvas', label: 'Fit to Window' },
+  atlas: { key: 'atlas', label: 'Atlas · 256 × 160', cols: 256, rows: 160 },
+  expanse: { key: 'expanse', label: 'Expanse · 400 × 250', cols: 400, rows: 250 },
+  cosmos: { key: 'cosmos', label: 'Cosmos · 560 × 350', cols: 560, rows: 350 },
+};
+
+/** What happens to a window-sized grid when the window changes size. */
+export type ResizePolicy = 'recenter' | 'keep';
+
+export const RESIZE_POLICIES: Record<ResizePolicy, { key: ResizePolicy; label: string }> = {
+  recenter: { key: 'recenter', label: 'Recentre & Crop' },
+  keep: { key: 'keep', label: 'Keep Grid' },
+};
+
+const MAX_CELLS = 200_000;
+
+const UNIVERSE_CELL_SIZE = 16;
+
+/**
+ * Grid for `universe` on a `width` × `height` viewport: fixed universes keep their size and
+ * leave fitting to the camera, while window-sized ones spend the grain's cell budget on the
+ * viewport and centre the result in it.
+ */
+export const universeLayout = (
+  universe: UniverseDefinition,
+  grain: GrainDefinition,
+  lattice: LatticeKind,
+  width: number,
+  height: number,
+): CellLayout => {
+  if (universe.cols && universe.rows) {
+    const cellSize = UNIVERSE_CELL_SIZE;
+    return {
+      cols: universe.cols,
+      rows: universe.rows,
+      lattice,
+      cellSize,
+      offsetX: cellSize / 2,
+      offsetY: cellSize / 2,
+    };
+  }
+  const targetCells = clamp(Math.round((width * height) / grain.cellArea), 1200, MAX_CELLS);
+  const pitch = LATTICE_PITCH[lattice];
+  const cellSize = clamp(Math.sqrt((width * height) / targetCells / (pitch.x * pitch.y)), 3, 28);
+  const { cols, rows } = latticeGridSize(lattice, width, height, cellSize);
+  const bounds = worldBounds({ cols, rows, lattice, cellSize, offsetX: 0, offsetY: 0 });
+  const offsetX = (width - bounds.width) / 2 - bounds.x;
+  const offsetY = (height - bounds.height) / 2 - bounds.y;
+  return { cols, rows, lattice, cellSize, offsetX, offsetY };
+};
@@ -0,0 +1,127 @@
+import { DEFAULT_ENERGY_RETENTION } from '../simulation/engine';
+
+/**
+ * How a cell's age and energy become size, opacity, colour and glow. Every field is a plain
+ * number so a style can be tweaked from sliders and sent to the worker as is.
+ */
+export interface VisualStyle {
+  /** Energy at which a cell counts as fully charged. */
+  energyScale: number;
+  /** Generations a cell takes to cross the gradient; 0 shows every live cell fully grown. */
+  ageSpan: number;
+  /** How far energy pushes a cell's colour along the gradient on top of its age. */
+  energyTint: number;
+  /** How strongly energy swells size, opacity, sway and halo. */
+  energySwell: number;
+  /** Core scale of a newborn cell before age and energy add to it. */
+  coreSize: number;
+  /** Halo strength; 0 leaves only the cores. */
+  halo: number;
+  /** Amplitude of the idle breathing and sway. */
+  shimmer: number;
+  /** Share of energy a cell keeps each generation, which sets how long glows linger. */
+  energyRetention: number;
+}
+
+export interface VisualStyleDefinition {
+  key: string;
+  label: string;
+  style: VisualStyle;
+}
+
+export const VISUAL_STYLES: Record<string, VisualStyleDefinition> = {
+  luminous: {
+    key: 'luminous',
+    label: 'Luminous',
+    style: {
+      energyScale: 180,
+      ageSpan: 18,
+      energyTint: 0.55,
+      energySwell: 1,
+      coreSize: 0.55,
+      halo: 1,
+      shimmer: 1,
+      energyRetention: DEFAULT_ENERGY_RETENTION,
+    },
+  },
+  binary: {
+    key: 'binary',
+    label: 'Classic Binary',
+    style: {
+      energyScale: 180,
+      ageSpan: 0,
+      energyTint: 0,
+      energySwell: 0,
+      coreSize: 0.8,
+      halo: 0,
+      shimmer: 0,
+      energyRetention: DEFAULT_ENERGY_RETENTION,
+    },
+  },
+  heatmap: {
+    key: 'heatmap',
+    label: 'Age Heatmap',
+    style: {
+      energyScale: 180,
+      ageSpan: 48,
+      energyTint: 0,
+      energySwell: 0.2,
+      coreSize: 0.7,
+      halo: 0.35,
+      shimmer: 0.3,
+      energyRetention: DEFAULT_ENERGY_RETENTION,
+    },
+  },
+  bloom: {
+    key: 'bloom',
+    label: 'Energy Bloom',
+    style: {
+      energyScale: 120,
+      ageSpan: 60,
+      energyTint: 1,
+      energySwell: 1.6,
+      coreSize: 0.45,
+      halo: 1.8,
+      shimmer: 1.2,
+      energyRetention: 0.8,
+    },
+  },
+  dots: {
+    key: 'dots',
+    label: 'Minimal Dots',
+    style: {
+      energyScale: 180,
+      ageSpan: 0,
+      energyTint: 0,
+      energySwell: 0,
+      coreSize: 0.25,
+      halo: 0,
+      shimmer: 0,
+      energyRetention: DEFAULT_ENERGY_RETENTION,
+    },
+  },
+};
+
+export const DEFAULT_VISUAL_STYLE = VISUAL_STYLES.luminous.style;
+
+/** Every parameter of a style, in a fixed order for compact encodings such as share links. */
+export const VISUAL_STYLE_KEYS = Object.keys(DEFAULT_VISUAL_STYLE) as (keyof VisualStyle)[];
+
+/** Key of the preset `style` matches exactly, or null for a tuned style. */
+export const matchVisualStyle = (style: VisualStyle): string | null =>
+  Object.values(VISUAL_STYLES).find((preset) => VISUAL_STYLE_KEYS.every((key) => preset.style[key] === style[key]))
+    ?.key ?? null;
+
+/** Takes the finite numbers from a saved style, falling back to the default for anything else. */
+export const readVisualStyle = (saved: Partial<Record<keyof VisualStyle, unknown>>): VisualStyle => {
+  const style = { ...DEFAULT_VISUAL_STYLE };
+  VISUAL_STYLE_KEYS.forEach((key) => {
+    const value = saved[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      style[key] = value;
+    }
+  });
+  style.energyScale = Math.max(1, style.energyScale);
+  style.energyRetention = Math.min(1, Math.max(0, style.energyRetention));
+  return style;
+};
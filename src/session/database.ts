@@ -0,0 +1,47 @@
+/** The one IndexedDB database the app keeps, shared by saved sessions and user themes. */
+
+const DATABASE_NAME = 'lumen-observatory';
+const DATABASE_VERSION = 2;
+
+export const SUMMARIES = 'sessions';
+export const GRIDS = 'grids';
+export const THEMES = 'themes';
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const complete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/** Opens the database once, creating any store an older version lacks. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUMMARIES)) {
+        db.createObjectStore(SUMMARIES, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(GRIDS)) {
+        db.createObjectStore(GRIDS);
+      }
+      if (!db.objectStoreNames.contains(THEMES)) {
+        db.createObjectStore(THEMES, { keyPath: 'key' });
+      }
+    };
+    database = settle(request).catch((error: unknown) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
@@ -0,0 +1,77 @@
+import { GRAINS, UNIVERSES } from '../render/universe';
+import { type VisualStyle, readVisualStyle } from '../render/visualStyle';
+import { type ParsedRule, parseRulestring } from '../simulation/rulestring';
+import { BOUNDARIES, type BoundaryMode } from '../simulation/topology';
+import { clamp } from '../utils/math';
+import { parseSeed } from '../utils/random';
+
+/** Control values that make up a session; keys are validated against the app's tables on load. */
+export interface SessionSettings {
+  theme: string;
+  /** Rulestring, so custom rules survive without a registry lookup. */
+  rule: string;
+  boundary: string;
+  grain: string;
+  universe: string;
+  speed: number;
+  density: number;
+  /** Seeds the soup, cell textures, sprite scatter and film grain. */
+  seed: number;
+  /** Absent from sessions saved before visual styles existed. */
+  style?: VisualStyle;
+}
+
+/** The settings from a saved or shared session that this build understands, ready to apply. */
+export interface ResolvedSettings {
+  theme?: string;
+  rule?: ParsedRule;
+  boundary?: BoundaryMode;
+  grain?: string;
+  universe?: string;
+  speed?: number;
+  density?: number;
+  seed?: number;
+  style?: VisualStyle;
+}
+
+/**
+ * Validates `settings` against the app's tables, dropping keys it does not know and clamping
+ * numbers to the ranges the controls allow. `themes` holds the built-in and user theme keys.
+ */
+export const resolveSettings = (settings: Partial<SessionSettings>, themes: Record<string, unknown>): ResolvedSettings => {
+  const resolved: ResolvedSettings = {};
+  if (settings.theme && themes[settings.theme]) {
+    resolved.theme = settings.theme;
+  }
+  if (settings.rule) {
+    const result = parseRulestring(settings.rule);
+    if (result.ok) {
+      resolved.rule = result.rule;
+    }
+  }
+  if (settings.boundary && settings.boundary in BOUNDARIES) {
+    resolved.boundary = settings.boundary as BoundaryMode;
+  }
+  if (settings.grain && GRAINS[settings.grain]) {
+    resolved.grain = settings.grain;
+  }
+  if (settings.universe && UNIVERSES[settings.universe]) {
+    resolved.universe = settings.universe;
+  }
+  if (settings.speed !== undefined) {
+    resolved.speed = clamp(settings.speed, 0.05, 1);
+  }
+  if (settings.density !== undefined) {
+    resolved.density = clamp(settings.density, 0.05, 0.8);
+  }
+  if (settings.seed !== undefined) {
+    const parsed = parseSeed(String(settings.seed));
+    if (parsed !== null) {
+      resolved.seed = parsed;
+    }
+  }
+  if (settings.style) {
+    resolved.style = readVisualStyle(settings.style);
+  }
+  return resolved;
+};
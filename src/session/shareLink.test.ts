@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { VISUAL_STYLES } from '../render/visualStyle';
+import type { SessionSettings } from './settings';
+import { decodeShareHash, encodeShareHash, sharedGridPlacement } from './shareLink';
+
+const SETTINGS: SessionSettings = {
+  theme: 'aurora',
+  rule: 'B36/S23',
+  boundary: 'torus',
+  grain: 'fine',
+  universe: 'square',
+  speed: 12,
+  density: 0.35,
+  seed: 4242,
+};
+
+const COLS = 20;
+const ROWS = 12;
+
+const gridOf = (indices: number[], generation = 0, origin: { seed: number; density: number } | null = null) => {
+  const state = new Uint8Array(COLS * ROWS);
+  indices.forEach((index) => {
+    state[index] = 1;
+  });
+  const species = new Uint8Array(state.length);
+  return { state, cols: COLS, rows: ROWS, stats: { generation }, origin, species, speciesCount: 1 };
+};
+
+describe('share links', () => {
+  it('round-trips every setting', () => {
+    expect(decodeShareHash(encodeShareHash(SETTINGS, null))).toEqual({ settings: SETTINGS, grid: null, soup: null });
+  });
+
+  it('names preset styles and pins tuned ones parameter by parameter', () => {
+    const preset = VISUAL_STYLES.luminous.style;
+    const presetHash = encodeShareHash({ ...SETTINGS, style: preset }, null);
+    expect(presetHash).toContain('style=luminous');
+    expect(decodeShareHash(presetHash)?.settings.style).toEqual(
+      Object.fromEntries(Object.entries(preset).map(([key, value]) => [key, Math.round(value * 1000) / 1000])),
+    );
+
+    const tuned = { ...preset, halo: 0.25, coreSize: 0.5 };
+    const tunedHash = encodeShareHash({ ...SETTINGS, style: tuned }, null);
+    expect(tunedHash).toContain('style=custom');
+    expect(decodeShareHash(tunedHash)?.settings.style).toMatchObject({ halo: 0.25, coreSize: 0.5 });
+  });
+
+  it('puts drawn cells back where they were', () => {
+    const cells = [3 * COLS + 4, 3 * COLS + 5, 4 * COLS + 5, 7 * COLS + 10];
+    const session = decodeShareHash(encodeShareHash(SETTINGS, gridOf(cells, 3)));
+    expect(session?.soup).toBeNull();
+    expect(session?.grid).toMatchObject({ x: 4, y: 3, cols: COLS, rows: ROWS });
+    expect(session?.grid && sharedGridPlacement(session.grid, COLS, ROWS)).toEqual({ cells });
+  });
+
+  it('centres drawn cells on a grid of another size', () => {
+    const session = decodeShareHash(encodeShareHash(SETTINGS, gridOf([0, 1, COLS])));
+    expect(session?.grid && sharedGridPlacement(session.grid, 10, 10).cells).toEqual([44, 45, 54]);
+  });
+
+  it('keeps the species of drawn cells on multi-species rules', () => {
+    const grid = { ...gridOf([0, 1, 2, COLS + 1]), speciesCount: 2 };
+    grid.species[1] = 1;
+    grid.species[COLS + 1] = 1;
+    const session = decodeShareHash(encodeShareHash({ ...SETTINGS, rule: 'Immigration' }, grid));
+    expect(session?.grid && sharedGridPlacement(session.grid, COLS, ROWS)).toEqual({
+      cells: [0, 1, 2, COLS + 1],
+      species: [0, 1, 0, 1],
+    });
+  });
+
+  it('sends a stepped soup as its seed and generation', () => {
+    const hash = encodeShareHash(SETTINGS, gridOf([0, 5, 9], 40, { seed: 7, density: 0.3 }));
+    expect(hash).not.toContain('cells=');
+    expect(decodeShareHash(hash)).toMatchObject({
+      grid: null,
+      soup: { seed: 7, density: 0.3, generation: 40, cols: COLS, rows: ROWS },
+    });
+  });
+
+  it('leaves an empty grid out of the link', () => {
+    expect(encodeShareHash(SETTINGS, gridOf([]))).toBe(encodeShareHash(SETTINGS, null));
+  });
+
+  it('rejects fragments that are not share links and ignores malformed fields', () => {
+    expect(decodeShareHash('')).toBeNull();
+    expect(decodeShareHash('#section-2')).toBeNull();
+    expect(decodeShareHash('#v=0&rule=B3/S23')).toBeNull();
+    expect(decodeShareHash('#v=1&speed=fast&grid=20x12&at=1,1&cells=3z!&look=1,2')).toEqual({
+      settings: {},
+      grid: null,
+      soup: null,
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { type Pattern, encodeRle, parseRle } from '../patterns/formats';
+import { type PatternPlacement, patternPlacement } from '../patterns/transform';
+import {
+  VISUAL_STYLES,
+  VISUAL_STYLE_KEYS,
+  type VisualStyle,
+  matchVisualStyle,
+  readVisualStyle,
+} from '../render/visualStyle';
+import { MAX_REPLAY_GENERATIONS, type SoupOrigin } from '../simulation/protocol';
+import { findLiveBounds } from '../simulation/region';
+import type { SessionSettings } from './settings';
+
+export interface SharedGrid {
+  pattern: Pattern;
+  /** Where the pattern's top-left corner sat on a grid of `cols` × `rows`. */
+  x: number;
+  y: number;
+  cols: number;
+  rows: number;
+}
+
+/** A seeded soup stepped to `generation`; replaying it needs the same rule and grid size. */
+export interface SharedSoup extends SoupOrigin {
+  generation: number;
+  cols: number;
+  rows: number;
+}
+
+export interface SharedSession {
+  settings: Partial<SessionSettings>;
+  grid: SharedGrid | null;
+  soup: SharedSoup | null;
+}
+
+const VERSION = '1';
+
+const TEXT_KEYS = ['theme', 'rule', 'boundary', 'grain', 'universe'] as const;
+
+const NUMBER_KEYS = ['speed', 'density', 'seed'] as const;
+
+/** Written as `style` when the look is a tuned style rather than a preset. */
+const CUSTOM_STYLE = 'custom';
+
+const roundValue = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+/** Percent-encodes a value but keeps `/`, `,` and `$`, which are legal in a fragment and common in rules and RLE. */
+const encodeValue = (value: string): string =>
+  encodeURIComponent(value).replace(/%2F|%2C|%24/g, (escape) => decodeURIComponent(escape));
+
+const readPair = (value: string | null): [number, number] | null => {
+  const parts = value?.split(/[,x]/).map(Number);
+  if (!parts || parts.length !== 2 || !parts.every((part) => Number.isInteger(part))) {
+    return null;
+  }
+  return [parts[0], parts[1]];
+};
+
+/**
+ * The style from a link's `look` parameters, checked as a saved session's style is; falls back
+ * to the named preset when the parameters are missing or malformed.
+ */
+const readSharedStyle = (preset: string | null, look: string | null): VisualStyle | null => {
+  const values = look?.split(',').map(Number);
+  if (values && values.length === VISUAL_STYLE_KEYS.length && values.every(Number.isFinite)) {
+    return readVisualStyle(Object.fromEntries(VISUAL_STYLE_KEYS.map((key, index) => [key, values[index]])));
+  }
+  return preset && VISUAL_STYLES[preset] ? VISUAL_STYLES[preset].style : null;
+};
+
+/**
+ * Builds a URL fragment holding every setting plus the grid. A seeded soup that has only been
+ * stepped is sent as its seed and generation; anything else as the data lines of an RLE
+ * pattern. Empty grids are left out so the link stays short.
+ */
+export const encodeShareHash = (
+  settings: SessionSettings,
+  grid: {
+    state: Uint8Array;
+    cols: number;
+    rows: number;
+    stats: { generation: number };
+    origin: SoupOrigin | null;
+    species: Uint8Array;
+    speciesCount: number;
+  } | null,
+): string => {
+  const fields: Array<[string, string]> = [['v', VERSION]];
+  TEXT_KEYS.forEach((key) => fields.push([key, settings[key]]));
+  NUMBER_KEYS.forEach((key) => fields.push([key, roundValue(settings[key])]));
+  if (settings.style) {
+    // The preset names the look; the parameters, in VISUAL_STYLE_KEYS order, pin tuned styles.
+    fields.push(
+      ['style', matchVisualStyle(settings.style) ?? CUSTOM_STYLE],
+      ['look', VISUAL_STYLE_KEYS.map((key) => roundValue(settings.style?.[key] ?? 0)).join(',')],
+    );
+  }
+
+  const bounds = grid ? findLiveBounds(grid.state, grid.cols, grid.rows) : null;
+  if (grid?.origin && grid.stats.generation <= MAX_REPLAY_GENERATIONS) {
+    const { seed, density } = grid.origin;
+    fields.push(
+      ['grid', `${grid.cols}x${grid.rows}`],
+      ['soup', String(seed)],
+      ['fill', String(density)],
+      ['gen', String(grid.stats.generation)],
+    );
+  } else if (grid && bounds) {
+    const species = grid.speciesCount > 1 ? grid.species : undefined;
+    const data = encodeRle(grid.state, grid.cols, bounds, settings.rule, { species })
+      .split('\n')
+      .filter((line) => !line.startsWith('#') && !/^x\s*=/.test(line))
+      .join('');
+    fields.push(['grid', `${grid.cols}x${grid.rows}`], ['at', `${bounds.minX},${bounds.minY}`], ['cells', data]);
+  }
+  return `#${fields.map(([key, value]) => `${key}=${encodeValue(value)}`).join('&')}`;
+};
+
+/** Reads a fragment written by `encodeShareHash`; returns null when it is not a share link. */
+export const decodeShareHash = (hash: string): SharedSession | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (params.get('v') !== VERSION) {
+    return null;
+  }
+  const settings: Partial<SessionSettings> = {};
+  TEXT_KEYS.forEach((key) => {
+    const value = params.get(key);
+    if (value) {
+      settings[key] = value;
+    }
+  });
+  NUMBER_KEYS.forEach((key) => {
+    const value = Number(params.get(key) ?? Number.NaN);
+    if (Number.isFinite(value)) {
+      settings[key] = value;
+    }
+  });
+  const style = readSharedStyle(params.get('style'), params.get('look'));
+  if (style) {
+    settings.style = style;
+  }
+
+  let grid: SharedGrid | null = null;
+  let soup: SharedSoup | null = null;
+  const data = params.get('cells');
+  const size = readPair(params.get('grid'));
+  const soupSeed = Number(params.get('soup') ?? Number.NaN);
+  const fill = Number(params.get('fill') ?? Number.NaN);
+  const generation = Number(params.get('gen') ?? Number.NaN);
+  if (size && Number.isInteger(soupSeed) && Number.isFinite(fill) && Number.isInteger(generation)) {
+    soup = { seed: soupSeed, density: fill, generation, cols: size[0], rows: size[1] };
+  }
+  const at = readPair(params.get('at'));
+  if (data && size && at) {
+    // The rule tells parseRle whether the letters of multi-state data are species.
+    const rule = settings.rule ? `, rule = ${settings.rule}` : '';
+    const result = parseRle(`x = 0, y = 0${rule}\n${data}`);
+    if (result.ok) {
+      grid = { pattern: result.pattern, x: at[0], y: at[1], cols: size[0], rows: size[1] };
+    }
+  }
+  return { settings, grid, soup };
+};
+
+/** Cells for a shared grid: in place when the grid size matches, otherwise centred. */
+export const sharedGridPlacement = (grid: SharedGrid, cols: number, rows: number): PatternPlacement => {
+  const { pattern } = grid;
+  const matches = grid.cols === cols && grid.rows === rows;
+  const x = matches ? grid.x : Math.floor((cols - pattern.width) / 2);
+  const y = matches ? grid.y : Math.floor((rows - pattern.height) / 2);
+  return patternPlacement(pattern, x, y, cols, rows);
+};
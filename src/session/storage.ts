@@ -0,0 +1,68 @@
+import type { GridState } from '../simulation/protocol';
+import { GRIDS, SUMMARIES, complete, openDatabase, settle } from './database';
+import type { SessionSettings } from './settings';
+
+/** What the session list shows; the grid itself is stored apart so listing stays cheap. */
+export interface SessionSummary {
+  id: number;
+  name: string;
+  savedAt: number;
+  generation: number;
+  /** Data URL of a small render of the canvas at save time. */
+  thumbnail: string;
+  settings: SessionSettings;
+}
+
+export interface NewSession {
+  name: string;
+  thumbnail: string;
+  settings: SessionSettings;
+  grid: GridState;
+}
+
+/** Every saved session, newest first. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const sessions = await settle<SessionSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return sessions.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveSession = async ({ grid, ...details }: NewSession): Promise<SessionSummary> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, GRIDS], 'readwrite');
+  const summary: Omit<SessionSummary, 'id'> = {
+    ...details,
+    savedAt: Date.now(),
+    generation: grid.stats.generation,
+  };
+  const id = Number(await settle(transaction.objectStore(SUMMARIES).add(summary)));
+  transaction.objectStore(GRIDS).put(grid, id);
+  await complete(transaction);
+  return { ...summary, id };
+};
+
+/** The saved grid for a session, or null if it has gone missing. */
+export const loadSessionGrid = async (id: number): Promise<GridState | null> => {
+  const db = await openDatabase();
+  const grid = await settle<GridState | undefined>(db.transaction(GRIDS).objectStore(GRIDS).get(id));
+  return grid ?? null;
+};
+
+export const renameSession = async (id: number, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARIES, 'readwrite');
+  const store = transaction.objectStore(SUMMARIES);
+  const summary = await settle<SessionSummary | undefined>(store.get(id));
+  if (summary) {
+    store.put({ ...summary, name });
+  }
+  await complete(transaction);
+};
+
+export const deleteSession = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, GRIDS], 'readwrite');
+  transaction.objectStore(SUMMARIES).delete(id);
+  transaction.objectStore(GRIDS).delete(id);
+  await complete(transaction);
+};
@@ -0,0 +1,39 @@
+import type { ThemeDefinition } from '../render/themes';
+import { THEMES, complete, openDatabase, settle } from './database';
+
+export interface StoredTheme {
+  /** Selection key, prefixed so it can never collide with a built-in theme. */
+  key: string;
+  savedAt: number;
+  theme: ThemeDefinition;
+}
+
+export const USER_THEME_PREFIX = 'user-';
+
+const createThemeKey = (): string => `${USER_THEME_PREFIX}${Date.now().toString(36)}`;
+
+/** Every user theme, oldest first so the picker order stays put as themes are added. */
+export const listThemes = async (): Promise<StoredTheme[]> => {
+  const db = await openDatabase();
+  const themes = await settle<StoredTheme[]>(db.transaction(THEMES).objectStore(THEMES).getAll());
+  return themes.sort((a, b) => a.savedAt - b.savedAt);
+};
+
+/** Overwrites the theme stored under `key`, or stores a new one when `key` is null. */
+export const saveTheme = async (key: string | null, theme: ThemeDefinition): Promise<StoredTheme> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(THEMES, 'readwrite');
+  const store = transaction.objectStore(THEMES);
+  const existing = key ? await settle<StoredTheme | undefined>(store.get(key)) : undefined;
+  const stored: StoredTheme = { key: key ?? createThemeKey(), savedAt: existing?.savedAt ?? Date.now(), theme };
+  store.put(stored);
+  await complete(transaction);
+  return stored;
+};
+
+export const deleteTheme = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(THEMES, 'readwrite');
+  transaction.objectStore(THEMES).delete(key);
+  await complete(transaction);
+};
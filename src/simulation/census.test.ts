@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { LIFE_CATALOGUE, canonicalShape, classifyShape, findComponents, takeCensus } from './census';
+import { RULES } from './rules';
+
+type Cell = [number, number];
+
+const cellsOf = (rows: string[]): Cell[] => {
+  const cells: Cell[] = [];
+  rows.forEach((row, y) => {
+    [...row].forEach((char, x) => {
+      if (char === 'O') {
+        cells.push([x, y]);
+      }
+    });
+  });
+  return cells;
+};
+
+const GLIDER = cellsOf(['.O.', '..O', 'OOO']);
+const BLOCK = cellsOf(['OO', 'OO']);
+const BLINKER = cellsOf(['OOO']);
+const LWSS = cellsOf(['.O..O', 'O....', 'O...O', 'OOOO.']);
+
+/** A grid with `cells` placed at (originX, originY), wrapping past the edges. */
+const gridWith = (cols: number, rows: number, placements: Array<[Cell[], number, number]>): Uint8Array => {
+  const state = new Uint8Array(cols * rows);
+  placements.forEach(([cells, originX, originY]) => {
+    cells.forEach(([x, y]) => {
+      const gx = (((x + originX) % cols) + cols) % cols;
+      const gy = (((y + originY) % rows) + rows) % rows;
+      state[gy * cols + gx] = 1;
+    });
+  });
+  return state;
+};
+
+describe('canonicalShape', () => {
+  it('gives every rotation and reflection of a shape the same code', () => {
+    const code = canonicalShape(GLIDER);
+    expect(canonicalShape(GLIDER.map(([x, y]): Cell => [-y, x]))).toBe(code);
+    expect(canonicalShape(GLIDER.map(([x, y]): Cell => [-x, y + 5]))).toBe(code);
+    expect(canonicalShape(BLOCK)).not.toBe(code);
+  });
+});
+
+describe('findComponents', () => {
+  it('separates objects that do not touch', () => {
+    const state = gridWith(12, 12, [
+      [BLOCK, 1, 1],
+      [BLINKER, 6, 6],
+    ]);
+    expect(findComponents(state, 12, 12)).toHaveLength(2);
+  });
+
+  it('joins an object across a wrapped edge and lays it out whole', () => {
+    const state = gridWith(10, 10, [[GLIDER, 8, 8]]);
+    expect(findComponents(state, 10, 10, 'dead')).toHaveLength(4);
+    const [component] = findComponents(state, 10, 10, 'torus');
+    expect(findComponents(state, 10, 10, 'torus')).toHaveLength(1);
+    expect(canonicalShape(component.cells)).toBe(canonicalShape(GLIDER));
+    expect(component.bounds.maxX - component.bounds.minX).toBe(2);
+  });
+
+  it('follows the mirror twist of a Klein bottle', () => {
+    // The two rows below the bottom edge come back at the top, mirrored left to right.
+    const cols = 10;
+    const rows = 10;
+    const state = new Uint8Array(cols * rows);
+    GLIDER.forEach(([x, y]) => {
+      const gx = 3 + x;
+      const gy = 8 + y;
+      const index = gy < rows ? gy * cols + gx : (gy - rows) * cols + (cols - 1 - gx);
+      state[index] = 1;
+    });
+    const components = findComponents(state, cols, rows, 'klein');
+    expect(components).toHaveLength(1);
+    expect(canonicalShape(components[0].cells)).toBe(canonicalShape(GLIDER));
+  });
+
+  it('does not join cells across mirrored edges', () => {
+    const state = gridWith(10, 10, [
+      [BLINKER, 0, 0],
+      [BLINKER, 0, 9],
+    ]);
+    expect(findComponents(state, 10, 10, 'mirror')).toHaveLength(2);
+  });
+});
+
+describe('classifyShape', () => {
+  it('recognises still lifes, oscillators and spaceships by running them', () => {
+    expect(classifyShape(BLOCK, RULES.classic)).toEqual({ name: '4-cell still life', category: 'still' });
+    expect(classifyShape(BLINKER, RULES.classic)).toEqual({ name: '3-cell period 2 oscillator', category: 'oscillator' });
+    expect(classifyShape(GLIDER, RULES.classic)).toEqual({ name: '5-cell c/4 diagonal spaceship', category: 'spaceship' });
+    expect(classifyShape(LWSS, RULES.classic)).toEqual({ name: '9-cell c/2 orthogonal spaceship', category: 'spaceship' });
+  });
+
+  it('leaves shapes that die or never repeat unknown', () => {
+    expect(classifyShape([[0, 0]], RULES.classic)).toEqual({ name: 'Unknown 1-cell', category: 'unknown' });
+    // The R-pentomino runs for over a thousand generations.
+    expect(classifyShape(cellsOf(['.OO', 'OO.', '.O.']), RULES.classic).category).toBe('unknown');
+  });
+
+  it('judges by the rule in play', () => {
+    // Under Seeds (B2/S) every cell dies each generation, so nothing is still.
+    expect(classifyShape(BLOCK, { birth: [2], survive: [] }).category).toBe('unknown');
+  });
+});
+
+describe('takeCensus', () => {
+  it('names catalogued objects and tallies repeats', () => {
+    const state = gridWith(20, 20, [
+      [BLOCK, 1, 1],
+      [BLOCK, 12, 1],
+      [BLINKER, 1, 10],
+      [GLIDER, 12, 12],
+    ]);
+    const entries = takeCensus(state, 20, 20, RULES.classic, 'dead', LIFE_CATALOGUE);
+    expect(entries.map(({ name, category, count }) => ({ name, category, count }))).toEqual([
+      { name: 'Block', category: 'still', count: 2 },
+      { name: 'Blinker', category: 'oscillator', count: 1 },
+      { name: 'Glider', category: 'spaceship', count: 1 },
+    ]);
+    expect(entries[0].members).toEqual([
+      { minX: 1, minY: 1, maxX: 2, maxY: 2 },
+      { minX: 12, minY: 1, maxX: 13, maxY: 2 },
+    ]);
+  });
+
+  it('classifies objects by behaviour when the rule has no catalogue', () => {
+    const state = gridWith(20, 20, [
+      [BLOCK, 1, 1],
+      [BLINKER, 10, 10],
+    ]);
+    const entries = takeCensus(state, 20, 20, RULES.highlife, 'dead', null);
+    expect(entries.map(({ name, category }) => ({ name, category }))).toEqual([
+      { name: '3-cell period 2 oscillator', category: 'oscillator' },
+      { name: '4-cell still life', category: 'still' },
+    ]);
+  });
+
+  it('counts an object straddling a wrapped edge once', () => {
+    const state = gridWith(10, 10, [[GLIDER, 8, 8]]);
+    const entries = takeCensus(state, 10, 10, RULES.classic, 'torus', LIFE_CATALOGUE);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ name: 'Glider', count: 1 });
+  });
+});
@@ -0,0 +1,324 @@
+import { type EngineRule, LifeEngine, MAX_AGE, isAlive } from './engine';
+import type { CellBounds } from './region';
+import { type BoundaryMode, resolveNeighborIndex } from './topology';
+
+export type ObjectCategory = 'still' | 'oscillator' | 'spaceship' | 'unknown';
+
+export interface KnownObject {
+  name: string;
+  category: ObjectCategory;
+}
+
+export interface CensusEntry {
+  /** Canonical shape code shared by every rotation and reflection of the object. */
+  key: string;
+  name: string;
+  category: ObjectCategory;
+  count: number;
+  cells: number;
+  /** Where each instance sits on the grid, for highlighting. */
+  members: CellBounds[];
+}
+
+/** Components larger than this are counted by size alone rather than canonicalised. */
+const MAX_CANONICAL_CELLS = 512;
+
+/** Generations an unknown shape is run in isolation to see whether it repeats. */
+const MAX_CLASSIFY_PERIOD = 32;
+
+type Cell = [number, number];
+
+const TRANSFORMS: Array<(x: number, y: number) => Cell> = [
+  (x, y) => [x, y],
+  (x, y) => [-y, x],
+  (x, y) => [-x, -y],
+  (x, y) => [y, -x],
+  (x, y) => [-x, y],
+  (x, y) => [y, x],
+  (x, y) => [x, -y],
+  (x, y) => [-y, -x],
+];
+
+const encode = (cells: Cell[]): string => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  cells.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const rows = Array.from({ length: height }, () => new Array<string>(width).fill('0'));
+  cells.forEach(([x, y]) => {
+    rows[y - minY][x - minX] = '1';
+  });
+  return `${width}x${height}:${rows.map((row) => row.join('')).join('/')}`;
+};
+
+/** Orientation-independent code for a set of cells: the smallest encoding of its 8 symmetries. */
+export const canonicalShape = (cells: Cell[]): string => {
+  let best = '';
+  TRANSFORMS.forEach((transform) => {
+    const code = encode(cells.map(([x, y]) => transform(x, y)));
+    if (best === '' || code.length < best.length || (code.length === best.length && code < best)) {
+      best = code;
+    }
+  });
+  return best;
+};
+
+interface Component {
+  /** Cells as laid out around the object, continuing past any edge it wraps across. */
+  cells: Cell[];
+  /** Bounds of `cells`, which may reach past the grid where the object wraps. */
+  bounds: CellBounds;
+}
+
+/** A cell reached by the flood fill: where it sits around the object, and whether it is mirrored. */
+interface Visit {
+  index: number;
+  x: number;
+  y: number;
+  flipped: boolean;
+}
+
+/**
+ * Groups live cells into 8-connected components. On wrapping boundaries neighbours are found
+ * across the edges, so an object straddling one is one component, laid out as it appears.
+ * Mirrored edges only echo cells already on the grid, so they join nothing.
+ */
+export const findComponents = (
+  state: Uint8Array,
+  cols: number,
+  rows: number,
+  boundary: BoundaryMode = 'dead',
+): Component[] => {
+  const topology: BoundaryMode = boundary === 'torus' || boundary === 'klein' ? boundary : 'dead';
+  const seen = new Uint8Array(state.length);
+  const stack: Visit[] = [];
+  const components: Component[] = [];
+  for (let start = 0; start < state.length; start += 1) {
+    if (seen[start] || !isAlive(state[start])) {
+      continue;
+    }
+    const cells: Cell[] = [];
+    const bounds: CellBounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    seen[start] = 1;
+    stack.push({ index: start, x: start % cols, y: Math.floor(start / cols), flipped: false });
+    while (stack.length > 0) {
+      const { index, x, y, flipped } = stack.pop() as Visit;
+      cells.push([x, y]);
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+      const gridX = index % cols;
+      const gridY = (index - gridX) / cols;
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          if (dx === 0 && dy === 0) {
+            continue;
+          }
+          // Past a Klein bottle's twisted edge the grid runs mirrored, so a step to the right
+          // around the object is a step to the left on the grid.
+          const ny = gridY + dy;
+          const neighbor = resolveNeighborIndex(gridX + (flipped ? -dx : dx), ny, cols, rows, topology);
+          if (neighbor < 0 || seen[neighbor] || !isAlive(state[neighbor])) {
+            continue;
+          }
+          seen[neighbor] = 1;
+          const twisted = topology === 'klein' && (ny < 0 || ny >= rows);
+          stack.push({ index: neighbor, x: x + dx, y: y + dy, flipped: flipped !== twisted });
+        }
+      }
+    }
+    components.push({ cells, bounds });
+  }
+  return components;
+};
+
+interface Phase {
+  code: string;
+  minX: number;
+  minY: number;
+}
+
+/**
+ * The engine's live and dying cells relative to their bounding box, or null once the grid is
+ * empty or the object has come within `guard` cells of the dead edges around it.
+ */
+const readPhase = (engine: LifeEngine, guard: number): Phase | null => {
+  const { cols, rows, state } = engine;
+  let minX = cols;
+  let minY = rows;
+  let maxX = -1;
+  let maxY = -1;
+  for (let i = 0; i < state.length; i += 1) {
+    if (state[i] !== 0) {
+      const x = i % cols;
+      const y = (i - x) / cols;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0 || minX < guard || minY < guard || maxX >= cols - guard || maxY >= rows - guard) {
+    return null;
+  }
+  const lines: string[] = [];
+  for (let y = minY; y <= maxY; y += 1) {
+    let line = '';
+    for (let x = minX; x <= maxX; x += 1) {
+      const value = state[y * cols + x];
+      line += value === 0 ? '.' : isAlive(value) ? 'o' : (value - MAX_AGE).toString(36);
+    }
+    lines.push(line);
+  }
+  return { code: lines.join('/'), minX, minY };
+};
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+const describeBehaviour = (size: number, period: number, dx: number, dy: number): KnownObject => {
+  if (dx === 0 && dy === 0) {
+    return period === 1
+      ? { name: `${size}-cell still life`, category: 'still' }
+      : { name: `${size}-cell period ${period} oscillator`, category: 'oscillator' };
+  }
+  const distance = Math.max(Math.abs(dx), Math.abs(dy));
+  const divisor = greatestCommonDivisor(distance, period);
+  const speed = `${distance === divisor ? '' : distance / divisor}c/${period / divisor}`;
+  const heading = dx === 0 || dy === 0 ? 'orthogonal' : Math.abs(dx) === Math.abs(dy) ? 'diagonal' : 'oblique';
+  return { name: `${size}-cell ${speed} ${heading} spaceship`, category: 'spaceship' };
+};
+
+/**
+ * Names an object by how it behaves alone under `rule`: it is run on an empty grid until a
+ * phase repeats, in place (a still life or oscillator) or moved (a spaceship). Objects that
+ * die, grow into the edges or do not repeat within MAX_CLASSIFY_PERIOD stay unknown.
+ */
+export const classifyShape = (cells: Cell[], rule: EngineRule): KnownObject => {
+  const range = Math.max(1, Math.round(rule.range ?? 1));
+  const guard = range + 1;
+  const padding = MAX_CLASSIFY_PERIOD * range + guard;
+  const minX = Math.min(...cells.map(([x]) => x));
+  const minY = Math.min(...cells.map(([, y]) => y));
+  const width = Math.max(...cells.map(([x]) => x)) - minX + 1;
+  const height = Math.max(...cells.map(([, y]) => y)) - minY + 1;
+  const engine = new LifeEngine(width + padding * 2, height + padding * 2, rule);
+  cells.forEach(([x, y]) => engine.setAge(x - minX + padding, y - minY + padding, 1));
+
+  const phases = new Map<string, { generation: number; minX: number; minY: number }>();
+  for (let generation = 0; generation <= MAX_CLASSIFY_PERIOD; generation += 1) {
+    if (generation > 0) {
+      engine.step();
+    }
+    const phase = readPhase(engine, guard);
+    if (!phase) {
+      break;
+    }
+    const earlier = phases.get(phase.code);
+    if (earlier) {
+      return describeBehaviour(cells.length, generation - earlier.generation, phase.minX - earlier.minX, phase.minY - earlier.minY);
+    }
+    phases.set(phase.code, { generation, minX: phase.minX, minY: phase.minY });
+  }
+  return { name: `Unknown ${cells.length}-cell`, category: 'unknown' };
+};
+
+interface ObjectDefinition extends KnownObject {
+  /** Plaintext rows of one phase, `O` for live cells. */
+  rows: string[];
+  period: number;
+}
+
+/** Common Conway's Life objects; every connected phase is recognised. */
+const LIFE_OBJECTS: ObjectDefinition[] = [
+  { name: 'Block', category: 'still', period: 1, rows: ['OO', 'OO'] },
+  { name: 'Beehive', category: 'still', period: 1, rows: ['.OO.', 'O..O', '.OO.'] },
+  { name: 'Loaf', category: 'still', period: 1, rows: ['.OO.', 'O..O', '.O.O', '..O.'] },
+  { name: 'Boat', category: 'still', period: 1, rows: ['OO.', 'O.O', '.O.'] },
+  { name: 'Ship', category: 'still', period: 1, rows: ['OO.', 'O.O', '.OO'] },
+  { name: 'Tub', category: 'still', period: 1, rows: ['.O.', 'O.O', '.O.'] },
+  { name: 'Pond', category: 'still', period: 1, rows: ['.OO.', 'O..O', 'O..O', '.OO.'] },
+  { name: 'Long boat', category: 'still', period: 1, rows: ['OO..', 'O.O.', '.O.O', '..O.'] },
+  { name: 'Barge', category: 'still', period: 1, rows: ['.O..', 'O.O.', '.O.O', '..O.'] },
+  { name: 'Snake', category: 'still', period: 1, rows: ['OO.O', 'O.OO'] },
+  { name: 'Blinker', category: 'oscillator', period: 2, rows: ['OOO'] },
+  { name: 'Toad', category: 'oscillator', period: 2, rows: ['.OOO', 'OOO.'] },
+  { name: 'Beacon', category: 'oscillator', period: 2, rows: ['OO..', 'OO..', '..OO', '..OO'] },
+  { name: 'Glider', category: 'spaceship', period: 4, rows: ['.O.', '..O', 'OOO'] },
+  { name: 'Lightweight spaceship', category: 'spaceship', period: 4, rows: ['.O..O', 'O....', 'O...O', 'OOOO.'] },
+];
+
+const LIFE_RULE = { birth: [3], survive: [2, 3] };
+
+const buildCatalogue = (definitions: ObjectDefinition[]): Map<string, KnownObject> => {
+  const catalogue = new Map<string, KnownObject>();
+  definitions.forEach(({ name, category, rows, period }) => {
+    const margin = 4;
+    const cols = rows[0].length + margin * 2;
+    const engine = new LifeEngine(cols, rows.length + margin * 2, LIFE_RULE);
+    rows.forEach((row, y) => {
+      [...row].forEach((char, x) => {
+        if (char === 'O') {
+          engine.setAge(x + margin, y + margin, 1);
+        }
+      });
+    });
+    for (let phase = 0; phase < period; phase += 1) {
+      const components = findComponents(engine.state, engine.cols, engine.rows);
+      if (components.length === 1) {
+        catalogue.set(canonicalShape(components[0].cells), { name, category });
+      }
+      engine.step();
+    }
+  });
+  return catalogue;
+};
+
+export const LIFE_CATALOGUE = buildCatalogue(LIFE_OBJECTS);
+
+/**
+ * Counts every distinct object on the grid, tracing objects across wrapped edges. Shapes
+ * found in `catalogue` are named; the rest are classified by running them alone under
+ * `rule` (see `classifyShape`) and grouped by canonical shape, so repeats tally together.
+ */
+export const takeCensus = (
+  state: Uint8Array,
+  cols: number,
+  rows: number,
+  rule: EngineRule,
+  boundary: BoundaryMode,
+  catalogue: Map<string, KnownObject> | null,
+): CensusEntry[] => {
+  const entries = new Map<string, CensusEntry>();
+  findComponents(state, cols, rows, boundary).forEach(({ cells, bounds }) => {
+    const key = cells.length > MAX_CANONICAL_CELLS ? `large:${cells.length}` : canonicalShape(cells);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.members.push(bounds);
+      return;
+    }
+    const known =
+      catalogue?.get(key)
+      ?? (cells.length > MAX_CANONICAL_CELLS
+        ? { name: `Unknown ${cells.length}-cell`, category: 'unknown' as const }
+        : classifyShape(cells, rule));
+    entries.set(key, {
+      key,
+      name: known.name,
+      category: known.category,
+      count: 1,
+      cells: cells.length,
+      members: [bounds],
+    });
+  });
+  return [...entries.values()].sort((a, b) => b.count - a.count || a.cells - b.cells);
+};
@@ -0,0 +1,134 @@
+import type { EngineRule, PaintMode } from './engine';
+import type { GridState, SimulationSnapshot, WorkerRequest, WorkerResponse } from './protocol';
+import type { BoundaryMode } from './topology';
+
+/** Milliseconds per generation for a tempo slider value from 0 (slowest) to 1. */
+export const stepDurationFor = (speed: number): number => 120 + (1 - speed) * 720;
+
+/**
+ * Main-thread handle on the simulation worker. The worker owns the engine and streams
+ * snapshots back; the latest one is kept here for the renderer to read every frame.
+ */
+export class SimulationClient {
+  private readonly worker: Worker;
+
+  private latest: SimulationSnapshot | null = null;
+
+  private readonly listener: (snapshot: SimulationSnapshot) => void;
+
+  constructor(onSnapshot: (snapshot: SimulationSnapshot) => void) {
+    this.listener = onSnapshot;
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === 'snapshot') {
+        this.latest = event.data.snapshot;
+        this.send({ type: 'ack', sequence: event.data.sequence });
+        this.listener(event.data.snapshot);
+      }
+    };
+  }
+
+  get snapshot(): SimulationSnapshot | null {
+    return this.latest;
+  }
+
+  init(cols: number, rows: number, rule: EngineRule, boundary: BoundaryMode): void {
+    this.latest = null;
+    this.send({ type: 'init', cols, rows, rule, boundary });
+  }
+
+  /** Re-dimensions the grid in place, keeping the colony centred. */
+  resize(cols: number, rows: number): void {
+    this.send({ type: 'resize', cols, rows });
+  }
+
+  setRule(rule: EngineRule): void {
+    this.send({ type: 'rule', rule });
+  }
+
+  setBoundary(boundary: BoundaryMode): void {
+    this.send({ type: 'boundary', boundary });
+  }
+
+  /** Share of each cell's energy kept per generation; see LifeEngine#energyRetention. */
+  setEnergyRetention(retention: number): void {
+    this.send({ type: 'energyRetention', retention });
+  }
+
+  setRunning(running: boolean): void {
+    this.send({ type: 'running', running });
+  }
+
+  setStepDuration(stepDuration: number): void {
+    this.send({ type: 'interval', stepDuration });
+  }
+
+  step(): void {
+    this.send({ type: 'step' });
+  }
+
+  /**
+   * Fills the grid with a soup drawn from `seed`, then steps it `generations` times so a
+   * shared soup can be replayed to the generation it was shared at.
+   */
+  randomize(density: number, seed: number, generations = 0): void {
+    this.send({ type: 'randomize', density, seed, generations });
+  }
+
+  clear(): void {
+    this.send({ type: 'clear' });
+  }
+
+  /**
+   * Sets, clears or flips the cells at the given grid indices. Calls sharing a `stroke` id
+   * are undone together; new cells belong to `species` on multi-species rules.
+   */
+  paint(cells: number[], mode: PaintMode, stroke?: number, species?: number): void {
+    if (cells.length > 0) {
+      this.send({ type: 'paint', cells, mode, stroke, species });
+    }
+  }
+
+  /**
+   * Replaces the whole grid with the given live cells, restarting at generation 0; `species`
+   * runs parallel to `cells` on multi-species rules.
+   */
+  load(cells: number[], species?: number[]): void {
+    this.send({ type: 'load', cells, species });
+  }
+
+  /** Replaces the grid with a saved one, keeping its generation, ages and energy. */
+  restore(grid: GridState): void {
+    this.send({ type: 'restore', grid });
+  }
+
+  /** Jumps to a recorded frame; positions index the snapshot's timeline status. */
+  seek(position: number): void {
+    this.send({ type: 'seek', position });
+  }
+
+  stepBack(): void {
+    this.send({ type: 'stepBack' });
+  }
+
+  undo(): void {
+    this.send({ type: 'undo' });
+  }
+
+  redo(): void {
+    this.send({ type: 'redo' });
+  }
+
+  setHistoryBudget(maxBytes: number): void {
+    this.send({ type: 'historyBudget', maxBytes });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.latest = null;
+  }
+
+  private send(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+}
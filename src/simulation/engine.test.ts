@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { LifeEngine, isAlive } from './engine';
+import { RULES } from './rules';
+
+const liveCells = (engine: LifeEngine): Array<[number, number]> => {
+  const cells: Array<[number, number]> = [];
+  for (let y = 0; y < engine.rows; y += 1) {
+    for (let x = 0; x < engine.cols; x += 1) {
+      if (isAlive(engine.getAge(x, y))) {
+        cells.push([x, y]);
+      }
+    }
+  }
+  return cells;
+};
+
+const place = (engine: LifeEngine, cells: Array<[number, number]>): void => {
+  cells.forEach(([x, y]) => engine.setAge(x, y, 1));
+};
+
+describe('LifeEngine', () => {
+  it('flips a blinker with period 2', () => {
+    const engine = new LifeEngine(5, 5, RULES.classic);
+    place(engine, [
+      [1, 2],
+      [2, 2],
+      [3, 2],
+    ]);
+
+    engine.step();
+    expect(liveCells(engine)).toEqual([
+      [2, 1],
+      [2, 2],
+      [2, 3],
+    ]);
+
+    engine.step();
+    expect(liveCells(engine)).toEqual([
+      [1, 2],
+      [2, 2],
+      [3, 2],
+    ]);
+    expect(engine.generation).toBe(2);
+  });
+
+  it('moves a glider one cell diagonally every 4 generations and wraps it on a torus', () => {
+    const engine = new LifeEngine(6, 6, RULES.classic, 'torus');
+    const glider: Array<[number, number]> = [
+      [1, 0],
+      [2, 1],
+      [0, 2],
+      [1, 2],
+      [2, 2],
+    ];
+    place(engine, glider);
+
+    const shifted = (by: number): Array<[number, number]> =>
+      glider
+        .map(([x, y]): [number, number] => [(x + by) % 6, (y + by) % 6])
+        .sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+
+    for (let step = 0; step < 4; step += 1) {
+      engine.step();
+    }
+    expect(liveCells(engine)).toEqual(shifted(1));
+
+    // Another 20 generations carries it across both wrapped edges.
+    for (let step = 0; step < 20; step += 1) {
+      engine.step();
+    }
+    expect(liveCells(engine)).toEqual(shifted(6));
+    expect(engine.stats.alive).toBe(5);
+  });
+
+  it('copies the HighLife replicator into two replicators after 12 generations', () => {
+    const engine = new LifeEngine(40, 40, RULES.highlife);
+    const replicator: Array<[number, number]> = [];
+    ['..ooo', '.o..o', 'o...o', 'o..o.', 'ooo..'].forEach((row, y) => {
+      [...row].forEach((cell, x) => {
+        if (cell === 'o') {
+          replicator.push([x, y]);
+        }
+      });
+    });
+    const at = (originX: number, originY: number): Array<[number, number]> =>
+      replicator.map(([x, y]): [number, number] => [originX + x, originY + y]);
+    place(engine, at(18, 18));
+
+    for (let step = 0; step < 12; step += 1) {
+      engine.step();
+    }
+    const expected = [...at(16, 16), ...at(20, 20)].sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+    expect(liveCells(engine)).toEqual(expected);
+  });
+});
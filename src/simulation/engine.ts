@@ -0,0 +1,675 @@
+import {
+  type LatticeKind,
+  type NeighborhoodShape,
+  type NeighborhoodSpan,
+  MAX_RANGE,
+  latticeOf,
+  latticeVariant,
+  neighborhoodSize,
+  neighborhoodSpans,
+} from './neighborhood';
+import type { RuleDefinition } from './rules';
+import { type BoundaryMode, resolveNeighborIndex } from './topology';
+import type { RandomSource } from '../utils/random';
+
+export interface SimulationStats {
+  generation: number;
+  alive: number;
+  births: number;
+  fades: number;
+}
+
+/** How a brush stroke changes the cells it covers. */
+export type PaintMode = 'draw' | 'erase' | 'toggle';
+
+export const MAX_AGE = 200;
+
+/** Most species a multi-species rule may have, as in QuadLife. */
+export const MAX_SPECIES = 4;
+
+/** Values above MAX_AGE encode the refractory stages of Generations rules. */
+export const MAX_DECAY_STAGES = 255 - MAX_AGE;
+
+export const isAlive = (value: number): boolean => value > 0 && value <= MAX_AGE;
+
+/** 0 for live or empty cells, otherwise 1..decayStages counting up as the ember cools. */
+export const decayStage = (value: number): number => (value > MAX_AGE ? value - MAX_AGE : 0);
+
+export type EngineRule = Pick<
+  RuleDefinition,
+  'birth' | 'survive' | 'states' | 'range' | 'neighborhood' | 'includeSelf' | 'species'
+>;
+
+/** Share of a cell's energy kept from one generation to the next unless told otherwise. */
+export const DEFAULT_ENERGY_RETENTION = 0.55;
+
+const emptyStats = (): SimulationStats => ({ generation: 0, alive: 0, births: 0, fades: 0 });
+
+/** Live cells of each species, indexed by species. */
+export const tallySpecies = (state: Uint8Array, species: Uint8Array, speciesCount: number): number[] => {
+  const tally = new Array<number>(speciesCount).fill(0);
+  for (let i = 0; i < state.length; i += 1) {
+    if (isAlive(state[i])) {
+      tally[species[i] % speciesCount] += 1;
+    }
+  }
+  return tally;
+};
+
+/**
+ * Headless cellular automaton: owns the age and energy buffers and advances them one
+ * generation at a time. It has no knowledge of React or Pixi so any frontend can drive it.
+ */
+export class LifeEngine {
+  readonly cols: number;
+
+  readonly rows: number;
+
+  private ages: Uint8Array;
+
+  private nextAges: Uint8Array;
+
+  private energyField: Float32Array;
+
+  private nextEnergy: Float32Array;
+
+  /** Species of each live or dying cell on multi-species rules; all zero otherwise. */
+  private speciesField: Uint8Array;
+
+  private nextSpecies: Uint8Array;
+
+  private speciesKinds = 1;
+
+  private speciesTally = new Uint16Array(MAX_SPECIES);
+
+  private birthTable = new Uint8Array(0);
+
+  private surviveTable = new Uint8Array(0);
+
+  private decayStages = 0;
+
+  private range = 1;
+
+  private shape: NeighborhoodShape = 'moore';
+
+  private includeSelf = false;
+
+  private lattice: LatticeKind = 'square';
+
+  /** Neighbourhood rows for each lattice variant; square lattices have just one. */
+  private spans: NeighborhoodSpan[][] = [];
+
+  /** Furthest a neighbourhood reaches along either axis, which sets the summed-area padding. */
+  private reach = 1;
+
+  private counts: Uint16Array;
+
+  private ageSums: Float32Array;
+
+  private energySums: Float32Array;
+
+  private paddedKey = '';
+
+  private paddedSource = new Int32Array(0);
+
+  private aliveTable = new Float64Array(0);
+
+  private ageTable = new Float64Array(0);
+
+  private energyTable = new Float64Array(0);
+
+  private currentStats: SimulationStats = emptyStats();
+
+  private rule: EngineRule;
+
+  boundary: BoundaryMode;
+
+  /**
+   * Share of each cell's energy carried into the next generation; the rest is drawn toward a
+   * target set by its own age and its neighbourhood. Purely visual, it never affects the rule.
+   */
+  energyRetention = DEFAULT_ENERGY_RETENTION;
+
+  constructor(
+    cols: number,
+    rows: number,
+    rule: EngineRule,
+    boundary: BoundaryMode = 'dead',
+  ) {
+    this.cols = cols;
+    this.rows = rows;
+    this.boundary = boundary;
+    const length = cols * rows;
+    this.ages = new Uint8Array(length);
+    this.nextAges = new Uint8Array(length);
+    this.energyField = new Float32Array(length);
+    this.nextEnergy = new Float32Array(length);
+    this.speciesField = new Uint8Array(length);
+    this.nextSpecies = new Uint8Array(length);
+    this.counts = new Uint16Array(length);
+    this.ageSums = new Float32Array(length);
+    this.energySums = new Float32Array(length);
+    this.rule = rule;
+    this.setRule(rule);
+  }
+
+  get size(): number {
+    return this.ages.length;
+  }
+
+  /**
+   * Cell ages; 0 is dead, 1..MAX_AGE is the number of generations survived and anything
+   * above MAX_AGE is a dying cell (see decayStage).
+   */
+  get state(): Uint8Array {
+    return this.ages;
+  }
+
+  get energy(): Float32Array {
+    return this.energyField;
+  }
+
+  get species(): Uint8Array {
+    return this.speciesField;
+  }
+
+  /** Number of species the rule distinguishes; 1 for ordinary rules. */
+  get speciesCount(): number {
+    return this.speciesKinds;
+  }
+
+  /** Number of refractory stages a dying cell passes through before it is empty again. */
+  get decayLength(): number {
+    return this.decayStages;
+  }
+
+  get generation(): number {
+    return this.currentStats.generation;
+  }
+
+  get stats(): SimulationStats {
+    return this.currentStats;
+  }
+
+  setRule(rule: EngineRule): void {
+    this.rule = rule;
+    this.range = Math.min(MAX_RANGE, Math.max(1, Math.round(rule.range ?? 1)));
+    this.shape = rule.neighborhood ?? 'moore';
+    this.includeSelf = rule.includeSelf ?? false;
+    this.lattice = latticeOf(this.shape);
+    const variants = this.lattice === 'square' ? [0] : [0, 1];
+    this.spans = variants.map((variant) => neighborhoodSpans(this.shape, this.range, variant));
+    this.reach = Math.max(
+      ...this.spans.flat().map((span) => Math.max(Math.abs(span.dy), Math.abs(span.lo), Math.abs(span.hi))),
+    );
+
+    const maxCount = neighborhoodSize(this.shape, this.range) + (this.includeSelf ? 1 : 0);
+    this.birthTable = new Uint8Array(maxCount + 1);
+    this.surviveTable = new Uint8Array(maxCount + 1);
+    rule.birth.forEach((count) => {
+      if (count >= 0 && count <= maxCount) {
+        this.birthTable[count] = 1;
+      }
+    });
+    rule.survive.forEach((count) => {
+      if (count >= 0 && count <= maxCount) {
+        this.surviveTable[count] = 1;
+      }
+    });
+
+    const decayStages = Math.min(MAX_DECAY_STAGES, Math.max(0, (rule.states ?? 2) - 2));
+    if (decayStages < this.decayStages) {
+      for (let i = 0; i < this.ages.length; i += 1) {
+        if (decayStage(this.ages[i]) > decayStages) {
+          this.ages[i] = 0;
+        }
+      }
+    }
+    this.decayStages = decayStages;
+
+    const speciesKinds = Math.min(MAX_SPECIES, Math.max(1, Math.round(rule.species ?? 1)));
+    if (speciesKinds !== this.speciesKinds) {
+      for (let i = 0; i < this.speciesField.length; i += 1) {
+        this.speciesField[i] %= speciesKinds;
+      }
+      this.speciesKinds = speciesKinds;
+    }
+  }
+
+  index(x: number, y: number): number {
+    return y * this.cols + x;
+  }
+
+  getAge(x: number, y: number): number {
+    if (x < 0 || x >= this.cols || y < 0 || y >= this.rows) {
+      return 0;
+    }
+    return this.ages[this.index(x, y)];
+  }
+
+  setAge(x: number, y: number, age: number): void {
+    if (x < 0 || x >= this.cols || y < 0 || y >= this.rows) {
+      return;
+    }
+    const index = this.index(x, y);
+    const clamped = Math.min(MAX_AGE, Math.max(0, Math.round(age)));
+    this.ages[index] = clamped;
+    this.energyField[index] = clamped * 6;
+  }
+
+  /**
+   * Applies a brush stroke to the given cell indices. Drawn cells start as newborns of
+   * `species`, one for the whole stroke or one per cell; erasing also clears Generations
+   * embers. Out-of-range indices are ignored.
+   */
+  paint(cells: ArrayLike<number>, mode: PaintMode, species: number | ArrayLike<number> = 0): SimulationStats {
+    let delta = 0;
+    for (let i = 0; i < cells.length; i += 1) {
+      const index = cells[i];
+      if (index < 0 || index >= this.ages.length) {
+        continue;
+      }
+      const alive = isAlive(this.ages[index]);
+      const live = mode === 'draw' || (mode === 'toggle' && !alive);
+      if (live === alive && (live || this.ages[index] === 0)) {
+        continue;
+      }
+      this.ages[index] = live ? 1 : 0;
+      this.energyField[index] = live ? 6 : 0;
+      const painted = typeof species === 'number' ? species : (species[i] ?? 0);
+      this.speciesField[index] = live ? painted % this.speciesKinds : 0;
+      if (live !== alive) {
+        delta += live ? 1 : -1;
+      }
+    }
+    this.currentStats = { ...this.currentStats, alive: this.currentStats.alive + delta };
+    return this.currentStats;
+  }
+
+  /**
+   * Overwrites the grid with previously captured buffers, e.g. when rewinding history. Grids
+   * saved without species come back as a single species.
+   */
+  restore(ages: Uint8Array, energy: Float32Array, stats: SimulationStats, species?: Uint8Array): void {
+    this.ages.set(ages.subarray(0, this.ages.length));
+    this.energyField.set(energy.subarray(0, this.energyField.length));
+    if (species) {
+      for (let i = 0; i < this.speciesField.length; i += 1) {
+        this.speciesField[i] = (species[i] ?? 0) % this.speciesKinds;
+      }
+    } else {
+      this.speciesField.fill(0);
+    }
+    this.nextAges.fill(0);
+    this.nextEnergy.fill(0);
+    this.currentStats = { ...stats };
+  }
+
+  /** Loads a grid saved at another size, centred and cropped or padded as `resized` would. */
+  restoreFitted(
+    cols: number,
+    rows: number,
+    ages: Uint8Array,
+    energy: Float32Array,
+    stats: SimulationStats,
+    species?: Uint8Array,
+  ): void {
+    const saved = new LifeEngine(cols, rows, this.rule, this.boundary);
+    saved.restore(ages, energy, stats, species);
+    const fitted = saved.resized(this.cols, this.rows);
+    this.restore(fitted.ages, fitted.energyField, fitted.currentStats, fitted.speciesField);
+  }
+
+  countAlive(): number {
+    let alive = 0;
+    for (let i = 0; i < this.ages.length; i += 1) {
+      if (isAlive(this.ages[i])) {
+        alive += 1;
+      }
+    }
+    return alive;
+  }
+
+  randomize(density: number, random: RandomSource = Math.random): SimulationStats {
+    let aliveCount = 0;
+    for (let i = 0; i < this.ages.length; i += 1) {
+      if (random() < density) {
+        const age = Math.floor(random() * 5) + 1;
+        this.ages[i] = age;
+        this.energyField[i] = age * 6;
+        // Only multi-species soups draw a species, so single-species seeds replay as before.
+        this.speciesField[i] = this.speciesKinds > 1 ? Math.floor(random() * this.speciesKinds) : 0;
+        aliveCount += 1;
+      } else {
+        this.ages[i] = 0;
+        this.energyField[i] = 0;
+        this.speciesField[i] = 0;
+      }
+      this.nextAges[i] = 0;
+      this.nextEnergy[i] = 0;
+    }
+    this.currentStats = { generation: 0, alive: aliveCount, births: aliveCount, fades: 0 };
+    return this.currentStats;
+  }
+
+  /**
+   * Returns a new engine of the given size carrying this colony over, centred and cropped or
+   * padded as needed. Generation count, rule and boundary are preserved.
+   */
+  resized(cols: number, rows: number): LifeEngine {
+    const next = new LifeEngine(cols, rows, this.rule, this.boundary);
+    next.energyRetention = this.energyRetention;
+    const shiftX = Math.floor((cols - this.cols) / 2);
+    const shiftY = Math.floor((rows - this.rows) / 2);
+    for (let y = 0; y < this.rows; y += 1) {
+      const targetY = y + shiftY;
+      if (targetY < 0 || targetY >= rows) {
+        continue;
+      }
+      for (let x = 0; x < this.cols; x += 1) {
+        const targetX = x + shiftX;
+        if (targetX < 0 || targetX >= cols) {
+          continue;
+        }
+        const source = y * this.cols + x;
+        const target = targetY * cols + targetX;
+        next.ages[target] = this.ages[source];
+        next.energyField[target] = this.energyField[source];
+        next.speciesField[target] = this.speciesField[source];
+      }
+    }
+    next.currentStats = {
+      generation: this.currentStats.generation,
+      alive: next.countAlive(),
+      births: 0,
+      fades: 0,
+    };
+    return next;
+  }
+
+  clear(): SimulationStats {
+    this.ages.fill(0);
+    this.nextAges.fill(0);
+    this.energyField.fill(0);
+    this.nextEnergy.fill(0);
+    this.speciesField.fill(0);
+    this.currentStats = emptyStats();
+    return this.currentStats;
+  }
+
+  step(): SimulationStats {
+    if (this.range === 1 && this.shape === 'moore' && !this.includeSelf) {
+      this.gatherNearest();
+    } else {
+      this.gatherWithSums();
+    }
+
+    const { decayStages, birthTable, surviveTable, counts, ageSums, energySums } = this;
+    const state = this.ages;
+    const next = this.nextAges;
+    const energy = this.energyField;
+    const energyNext = this.nextEnergy;
+    const retention = this.energyRetention;
+    const multiSpecies = this.speciesKinds > 1;
+    const species = this.speciesField;
+    const speciesNext = this.nextSpecies;
+    let aliveCount = 0;
+    let births = 0;
+    let fades = 0;
+
+    for (let index = 0; index < state.length; index += 1) {
+      const age = state[index];
+      const alive = isAlive(age);
+      const stage = decayStage(age);
+      const neighbors = counts[index];
+
+      let newAge = 0;
+      let nextValue = 0;
+      if (alive) {
+        if (surviveTable[neighbors] === 1) {
+          newAge = Math.min(MAX_AGE, age + 1);
+          nextValue = newAge;
+        } else if (decayStages > 0) {
+          nextValue = MAX_AGE + 1;
+        }
+      } else if (stage > 0) {
+        nextValue = stage < decayStages ? age + 1 : 0;
+      } else if (birthTable[neighbors] === 1) {
+        newAge = 1;
+        nextValue = newAge;
+      }
+
+      if (newAge > 0) {
+        aliveCount += 1;
+      }
+      if (!alive && newAge > 0) {
+        births += 1;
+      }
+      if (alive && newAge === 0) {
+        fades += 1;
+      }
+
+      next[index] = nextValue;
+      if (multiSpecies) {
+        // Newborns take their parents' majority; survivors and embers keep their own.
+        if (!alive && newAge > 0) {
+          speciesNext[index] = this.birthSpecies(index);
+        } else {
+          speciesNext[index] = nextValue > 0 ? species[index] : 0;
+        }
+      }
+
+      const neighborAgeAverage = neighbors > 0 ? ageSums[index] / neighbors : 0;
+      const neighborEnergyAverage = neighbors > 0 ? energySums[index] / neighbors : 0;
+      const targetEnergy = newAge > 0
+        ? newAge * 6 + neighborAgeAverage * 1.2 + neighborEnergyAverage * 0.35
+        : neighborAgeAverage * 0.8;
+      energyNext[index] = energy[index] * retention + targetEnergy * (1 - retention);
+    }
+
+    this.ages = next;
+    this.nextAges = state;
+    this.energyField = energyNext;
+    this.nextEnergy = energy;
+    if (multiSpecies) {
+      this.speciesField = speciesNext;
+      this.nextSpecies = species;
+    }
+
+    this.currentStats = {
+      generation: this.currentStats.generation + 1,
+      alive: aliveCount,
+      births,
+      fades,
+    };
+    return this.currentStats;
+  }
+
+  /**
+   * Species of a cell about to be born: the most common among its live neighbours. Ties go to
+   * the one species no parent has, if exactly one is missing (QuadLife's rule for three
+   * different parents), and otherwise to the lowest tied species.
+   */
+  private birthSpecies(index: number): number {
+    const { cols, rows, boundary, speciesTally, speciesKinds } = this;
+    const x = index % cols;
+    const y = (index - x) / cols;
+    const spans = this.spans[latticeVariant(this.lattice, x, y)];
+    speciesTally.fill(0);
+    for (let s = 0; s < spans.length; s += 1) {
+      const { dy, lo, hi } = spans[s];
+      for (let dx = lo; dx <= hi; dx += 1) {
+        if (dx === 0 && dy === 0) {
+          continue;
+        }
+        const neighborIndex = resolveNeighborIndex(x + dx, y + dy, cols, rows, boundary);
+        if (neighborIndex >= 0 && isAlive(this.ages[neighborIndex])) {
+          speciesTally[this.speciesField[neighborIndex]] += 1;
+        }
+      }
+    }
+
+    let best = 0;
+    let tied = 0;
+    let missing = -1;
+    let missingCount = 0;
+    for (let kind = 0; kind < speciesKinds; kind += 1) {
+      const count = speciesTally[kind];
+      if (count === 0) {
+        missing = kind;
+        missingCount += 1;
+      }
+      if (count > speciesTally[best]) {
+        best = kind;
+        tied = 1;
+      } else if (count === speciesTally[best]) {
+        tied += 1;
+      }
+    }
+    if (tied > 1 && missingCount === 1) {
+      return missing;
+    }
+    return best;
+  }
+
+  /** Direct radius-1 Moore count; the common case and cheaper than building sum tables. */
+  private gatherNearest(): void {
+    const { cols, rows, boundary, counts, ageSums, energySums } = this;
+    const state = this.ages;
+    const energy = this.energyField;
+
+    for (let y = 0; y < rows; y += 1) {
+      for (let x = 0; x < cols; x += 1) {
+        let neighbors = 0;
+        let neighborAge = 0;
+        let neighborEnergy = 0;
+
+        for (let ny = -1; ny <= 1; ny += 1) {
+          for (let nx = -1; nx <= 1; nx += 1) {
+            if (nx === 0 && ny === 0) {
+              continue;
+            }
+            const neighborIndex = resolveNeighborIndex(x + nx, y + ny, cols, rows, boundary);
+            if (neighborIndex < 0) {
+              continue;
+            }
+            const neighborAgeValue = state[neighborIndex];
+            if (neighborAgeValue > 0 && neighborAgeValue <= MAX_AGE) {
+              neighbors += 1;
+              neighborAge += neighborAgeValue;
+              neighborEnergy += energy[neighborIndex];
+            }
+          }
+        }
+
+        const index = y * cols + x;
+        counts[index] = neighbors;
+        ageSums[index] = neighborAge;
+        energySums[index] = neighborEnergy;
+      }
+    }
+  }
+
+  /**
+   * Larger-than-Life count: pads the grid by the neighbourhood's reach according to the boundary
+   * mode, builds summed-area tables and reads each neighbourhood row as a constant-time span
+   * query. Hex and triangle cells pick the rows for their own variant.
+   */
+  private gatherWithSums(): void {
+    const { cols, rows, reach, lattice, spans: spanSets, counts, ageSums, energySums } = this;
+    const state = this.ages;
+    const energy = this.energyField;
+    const width = cols + reach * 2;
+    const height = rows + reach * 2;
+    const stride = width + 1;
+
+    const key = `${this.boundary}:${reach}`;
+    if (key !== this.paddedKey) {
+      this.paddedKey = key;
+      this.paddedSource = new Int32Array(width * height);
+      for (let py = 0; py < height; py += 1) {
+        for (let px = 0; px < width; px += 1) {
+          this.paddedSource[py * width + px] = resolveNeighborIndex(
+            px - reach,
+            py - reach,
+            cols,
+            rows,
+            this.boundary,
+          );
+        }
+      }
+      const tableSize = stride * (height + 1);
+      this.aliveTable = new Float64Array(tableSize);
+      this.ageTable = new Float64Array(tableSize);
+      this.energyTable = new Float64Array(tableSize);
+    }
+
+    const { paddedSource, aliveTable, ageTable, energyTable } = this;
+    for (let py = 0; py < height; py += 1) {
+      let rowAlive = 0;
+      let rowAge = 0;
+      let rowEnergy = 0;
+      for (let px = 0; px < width; px += 1) {
+        const source = paddedSource[py * width + px];
+        if (source >= 0) {
+          const value = state[source];
+          if (value > 0 && value <= MAX_AGE) {
+            rowAlive += 1;
+            rowAge += value;
+            rowEnergy += energy[source];
+          }
+        }
+        const cell = (py + 1) * stride + px + 1;
+        aliveTable[cell] = aliveTable[cell - stride] + rowAlive;
+        ageTable[cell] = ageTable[cell - stride] + rowAge;
+        energyTable[cell] = energyTable[cell - stride] + rowEnergy;
+      }
+    }
+
+    const query = (table: Float64Array, top: number, bottom: number, left: number, right: number): number =>
+      table[(bottom + 1) * stride + right + 1]
+      - table[top * stride + right + 1]
+      - table[(bottom + 1) * stride + left]
+      + table[top * stride + left];
+
+    const moore = this.shape === 'moore';
+    for (let y = 0; y < rows; y += 1) {
+      for (let x = 0; x < cols; x += 1) {
+        let neighbors = 0;
+        let neighborAge = 0;
+        let neighborEnergy = 0;
+
+        if (moore) {
+          const bottom = y + reach * 2;
+          const right = x + reach * 2;
+          neighbors = query(aliveTable, y, bottom, x, right);
+          neighborAge = query(ageTable, y, bottom, x, right);
+          neighborEnergy = query(energyTable, y, bottom, x, right);
+        } else {
+          const spans = spanSets[latticeVariant(lattice, x, y)];
+          for (let s = 0; s < spans.length; s += 1) {
+            const span = spans[s];
+            const row = y + reach + span.dy;
+            const left = x + reach + span.lo;
+            const right = x + reach + span.hi;
+            neighbors += query(aliveTable, row, row, left, right);
+            neighborAge += query(ageTable, row, row, left, right);
+            neighborEnergy += query(energyTable, row, row, left, right);
+          }
+        }
+
+        const index = y * cols + x;
+        const value = state[index];
+        if (!this.includeSelf && value > 0 && value <= MAX_AGE) {
+          neighbors -= 1;
+          neighborAge -= value;
+          neighborEnergy -= energy[index];
+        }
+
+        counts[index] = Math.round(neighbors);
+        ageSums[index] = Math.max(0, neighborAge);
+        energySums[index] = Math.max(0, neighborEnergy);
+      }
+    }
+  }
+}
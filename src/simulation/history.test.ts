@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { LifeEngine } from './engine';
+import { Timeline } from './history';
+import { RULES } from './rules';
+import { createRandom } from '../utils/random';
+
+const MB = 1024 * 1024;
+
+const newEngine = (): LifeEngine => new LifeEngine(50, 40, RULES.classic);
+
+describe('Timeline', () => {
+  it('restores noisy, sparse and long-run grids exactly through PackBits', () => {
+    const engine = newEngine();
+    const timeline = new Timeline(16 * MB);
+    const grids: Array<{ ages: Uint8Array; energy: Float32Array; species: Uint8Array }> = [];
+
+    const capture = (): void => {
+      timeline.record(engine, 'edit');
+      grids.push({ ages: engine.state.slice(), energy: engine.energy.slice(), species: engine.species.slice() });
+    };
+
+    engine.randomize(0.5, createRandom(7));
+    capture();
+    engine.clear();
+    // Runs longer than one PackBits block, a lone cell and a literal stretch of mixed ages.
+    for (let x = 0; x < 50; x += 1) {
+      engine.setAge(x, 10, 1);
+      engine.setAge(x, 11, 1);
+      engine.setAge(x, 12, 1);
+    }
+    engine.setAge(7, 30, 1);
+    [3, 9, 4, 4, 200, 1, 2].forEach((age, x) => engine.setAge(x, 35, age));
+    capture();
+    engine.clear();
+    capture();
+
+    grids.forEach((grid, position) => {
+      expect(timeline.seek(engine, position)).toBe(true);
+      expect(engine.state).toEqual(grid.ages);
+      expect(engine.species).toEqual(grid.species);
+      expect(engine.energy).toEqual(grid.energy.map((value) => Math.min(255, Math.round(value))));
+    });
+  });
+
+  it('stores an empty grid in a few bytes', () => {
+    const timeline = new Timeline(16 * MB);
+    timeline.record(newEngine(), 'step');
+    expect(timeline.status().bytes).toBeLessThan(200);
+  });
+
+  it('evicts the oldest frames to stay within its byte budget', () => {
+    const engine = newEngine();
+    engine.randomize(0.4, createRandom(1));
+    const timeline = new Timeline(0);
+    timeline.record(engine, 'step');
+    const frameBytes = timeline.status().bytes;
+    timeline.setMaxBytes(frameBytes * 10);
+
+    for (let step = 0; step < 40; step += 1) {
+      engine.step();
+      timeline.record(engine, 'step');
+    }
+    const status = timeline.status();
+    expect(status.bytes).toBeLessThanOrEqual(frameBytes * 10);
+    expect(status.length).toBeLessThan(41);
+    expect(status.lastGeneration).toBe(40);
+    expect(status.firstGeneration).toBe(40 - status.length + 1);
+    expect(status.position).toBe(status.length - 1);
+
+    timeline.setMaxBytes(0);
+    expect(timeline.length).toBe(1);
+  });
+
+  it('keeps at most its capacity of frames', () => {
+    const engine = newEngine();
+    const timeline = new Timeline(16 * MB, 4);
+    for (let step = 0; step < 6; step += 1) {
+      timeline.record(engine, 'step');
+      engine.step();
+    }
+    expect(timeline.status()).toMatchObject({ length: 4, firstGeneration: 2, lastGeneration: 5 });
+  });
+
+  it('undoes and redoes edits across the steps around them', () => {
+    const engine = newEngine();
+    const timeline = new Timeline(16 * MB);
+    timeline.record(engine, 'step');
+    engine.setAge(5, 5, 1);
+    timeline.record(engine, 'edit');
+    engine.step();
+    timeline.record(engine, 'step');
+
+    expect(timeline.status()).toMatchObject({ canUndo: true, canRedo: false });
+    expect(timeline.undo(engine)).toBe(true);
+    expect(timeline.position).toBe(0);
+    expect(engine.countAlive()).toBe(0);
+    expect(timeline.status()).toMatchObject({ canUndo: false, canRedo: true });
+
+    expect(timeline.redo(engine)).toBe(true);
+    expect(timeline.position).toBe(1);
+    expect(engine.getAge(5, 5)).toBe(1);
+    expect(timeline.redo(engine)).toBe(false);
+  });
+
+  it('collapses edits that share a stroke key into one frame', () => {
+    const engine = newEngine();
+    const timeline = new Timeline(16 * MB);
+    timeline.record(engine, 'step');
+    for (let x = 0; x < 5; x += 1) {
+      engine.setAge(x, 0, 1);
+      timeline.record(engine, 'edit', 'stroke:1');
+    }
+    engine.setAge(0, 1, 1);
+    timeline.record(engine, 'edit', 'stroke:2');
+    expect(timeline.length).toBe(3);
+
+    timeline.undo(engine);
+    expect(engine.countAlive()).toBe(5);
+    timeline.undo(engine);
+    expect(engine.countAlive()).toBe(0);
+  });
+
+  it('drops the frames ahead of the cursor when something new is recorded', () => {
+    const engine = newEngine();
+    const timeline = new Timeline(16 * MB);
+    for (let step = 0; step < 5; step += 1) {
+      timeline.record(engine, 'step');
+      engine.step();
+    }
+    timeline.seek(engine, 1);
+    engine.setAge(1, 1, 1);
+    timeline.record(engine, 'edit');
+    expect(timeline.status()).toMatchObject({ length: 3, position: 2, canRedo: false });
+  });
+});
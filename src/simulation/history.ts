@@ -0,0 +1,283 @@
+import type { LifeEngine, SimulationStats } from './engine';
+
+export type HistoryKind = 'step' | 'edit';
+
+export interface HistoryBudgetDefinition {
+  key: string;
+  label: string;
+  maxBytes: number;
+}
+
+export const HISTORY_BUDGETS: Record<string, HistoryBudgetDefinition> = {
+  off: { key: 'off', label: 'Off', maxBytes: 0 },
+  light: { key: 'light', label: '16 MB', maxBytes: 16 * 1024 * 1024 },
+  standard: { key: 'standard', label: '64 MB', maxBytes: 64 * 1024 * 1024 },
+  deep: { key: 'deep', label: '256 MB', maxBytes: 256 * 1024 * 1024 },
+};
+
+export interface TimelineStatus {
+  /** Number of frames held. */
+  length: number;
+  /** Index of the frame the grid currently shows. */
+  position: number;
+  /** Generations of the oldest and newest frames, for labelling the scrubber. */
+  firstGeneration: number;
+  lastGeneration: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  bytes: number;
+  maxBytes: number;
+}
+
+interface HistoryFrame {
+  kind: HistoryKind;
+  /** Consecutive edits sharing a key (one brush stroke) collapse into a single frame. */
+  mergeKey: string | null;
+  stats: SimulationStats;
+  ages: Uint8Array;
+  energy: Uint8Array;
+  species: Uint8Array;
+  bytes: number;
+}
+
+/** Energy only drives visuals, so frames keep it as whole units capped to a byte. */
+const MAX_STORED_ENERGY = 255;
+
+/** Per-frame overhead beyond the packed buffers, so tiny frames still count towards the budget. */
+const FRAME_OVERHEAD = 96;
+
+/**
+ * PackBits: a header h < 128 is followed by h + 1 literal bytes, otherwise the next byte
+ * repeats h - 126 times. Sparse grids shrink to a few bytes per run; noise grows by <1%.
+ */
+const pack = (source: ArrayLike<number>, scratch: Uint8Array): Uint8Array => {
+  const length = source.length;
+  let out = 0;
+  let i = 0;
+  while (i < length) {
+    let run = 1;
+    while (i + run < length && run < 129 && source[i + run] === source[i]) {
+      run += 1;
+    }
+    if (run >= 2) {
+      scratch[out] = run + 126;
+      scratch[out + 1] = source[i];
+      out += 2;
+      i += run;
+      continue;
+    }
+    const start = i;
+    i += 1;
+    while (i < length && i - start < 128 && !(i + 1 < length && source[i + 1] === source[i])) {
+      i += 1;
+    }
+    scratch[out] = i - start - 1;
+    out += 1;
+    for (let j = start; j < i; j += 1) {
+      scratch[out] = source[j];
+      out += 1;
+    }
+  }
+  return scratch.slice(0, out);
+};
+
+const unpack = (packed: Uint8Array, target: { length: number; [index: number]: number }): void => {
+  let out = 0;
+  let i = 0;
+  while (i < packed.length && out < target.length) {
+    const header = packed[i];
+    if (header < 128) {
+      for (let j = 0; j <= header; j += 1) {
+        target[out] = packed[i + 1 + j];
+        out += 1;
+      }
+      i += header + 2;
+    } else {
+      const value = packed[i + 1];
+      for (let j = 0; j < header - 126; j += 1) {
+        target[out] = value;
+        out += 1;
+      }
+      i += 2;
+    }
+  }
+};
+
+/**
+ * Bounded record of recent grid states for scrubbing, stepping back and undoing edits. Frames
+ * live in a ring buffer; the oldest are evicted once the packed size exceeds `maxBytes`.
+ * Moving the cursor back and then stepping or editing discards the frames ahead of it.
+ */
+export class Timeline {
+  maxBytes: number;
+
+  private slots: Array<HistoryFrame | null>;
+
+  private head = 0;
+
+  private count = 0;
+
+  private cursor = -1;
+
+  private bytes = 0;
+
+  private scratch = new Uint8Array(0);
+
+  private quantized = new Uint8Array(0);
+
+  constructor(maxBytes: number, capacity = 4096) {
+    this.maxBytes = maxBytes;
+    this.slots = new Array<HistoryFrame | null>(capacity).fill(null);
+  }
+
+  get position(): number {
+    return this.cursor;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  reset(): void {
+    this.slots.fill(null);
+    this.head = 0;
+    this.count = 0;
+    this.cursor = -1;
+    this.bytes = 0;
+  }
+
+  /** Captures the engine's current state as the newest frame. */
+  record(engine: LifeEngine, kind: HistoryKind, mergeKey: string | null = null): void {
+    this.truncateAfterCursor();
+    const latest = this.count > 0 ? this.frame(this.count - 1) : null;
+    if (mergeKey !== null && latest && latest.kind === 'edit' && latest.mergeKey === mergeKey) {
+      this.dropNewest();
+    }
+
+    const size = engine.size;
+    if (this.scratch.length < size + Math.ceil(size / 128) + 2) {
+      this.scratch = new Uint8Array(size + Math.ceil(size / 128) + 2);
+      this.quantized = new Uint8Array(size);
+    }
+    const { energy } = engine;
+    for (let i = 0; i < size; i += 1) {
+      this.quantized[i] = Math.min(MAX_STORED_ENERGY, Math.round(energy[i]));
+    }
+    const ages = pack(engine.state, this.scratch);
+    const packedEnergy = pack(this.quantized, this.scratch);
+    const species = pack(engine.species, this.scratch);
+    const frame: HistoryFrame = {
+      kind,
+      mergeKey,
+      stats: engine.stats,
+      ages,
+      energy: packedEnergy,
+      species,
+      bytes: ages.byteLength + packedEnergy.byteLength + species.byteLength + FRAME_OVERHEAD,
+    };
+
+    if (this.count === this.slots.length) {
+      this.dropOldest();
+    }
+    this.slots[(this.head + this.count) % this.slots.length] = frame;
+    this.count += 1;
+    this.bytes += frame.bytes;
+    this.cursor = this.count - 1;
+    while (this.bytes > this.maxBytes && this.count > 1) {
+      this.dropOldest();
+    }
+  }
+
+  /** Restores the frame at `position` into the engine; returns false when out of range. */
+  seek(engine: LifeEngine, position: number): boolean {
+    if (position < 0 || position >= this.count) {
+      return false;
+    }
+    const frame = this.frame(position);
+    const ages = new Uint8Array(engine.size);
+    const energy = new Float32Array(engine.size);
+    const species = new Uint8Array(engine.size);
+    unpack(frame.ages, ages);
+    unpack(frame.energy, energy);
+    unpack(frame.species, species);
+    engine.restore(ages, energy, frame.stats, species);
+    this.cursor = position;
+    return true;
+  }
+
+  /** Returns to the state just before the most recent edit at or behind the cursor. */
+  undo(engine: LifeEngine): boolean {
+    for (let position = this.cursor; position > 0; position -= 1) {
+      if (this.frame(position).kind === 'edit') {
+        return this.seek(engine, position - 1);
+      }
+    }
+    return false;
+  }
+
+  /** Re-applies the next edit ahead of the cursor. */
+  redo(engine: LifeEngine): boolean {
+    for (let position = this.cursor + 1; position < this.count; position += 1) {
+      if (this.frame(position).kind === 'edit') {
+        return this.seek(engine, position);
+      }
+    }
+    return false;
+  }
+
+  /** Drops frames until the packed size fits a new budget. */
+  setMaxBytes(maxBytes: number): void {
+    this.maxBytes = maxBytes;
+    while (this.bytes > this.maxBytes && this.count > 1) {
+      this.dropOldest();
+    }
+  }
+
+  status(): TimelineStatus {
+    const hasFrames = this.count > 0;
+    let canUndo = false;
+    for (let position = this.cursor; position > 0 && !canUndo; position -= 1) {
+      canUndo = this.frame(position).kind === 'edit';
+    }
+    let canRedo = false;
+    for (let position = this.cursor + 1; position < this.count && !canRedo; position += 1) {
+      canRedo = this.frame(position).kind === 'edit';
+    }
+    return {
+      length: this.count,
+      position: this.cursor,
+      firstGeneration: hasFrames ? this.frame(0).stats.generation : 0,
+      lastGeneration: hasFrames ? this.frame(this.count - 1).stats.generation : 0,
+      canUndo,
+      canRedo,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  private frame(position: number): HistoryFrame {
+    return this.slots[(this.head + position) % this.slots.length] as HistoryFrame;
+  }
+
+  private truncateAfterCursor(): void {
+    while (this.count - 1 > this.cursor) {
+      this.dropNewest();
+    }
+  }
+
+  private dropNewest(): void {
+    const slot = (this.head + this.count - 1) % this.slots.length;
+    this.bytes -= this.slots[slot]?.bytes ?? 0;
+    this.slots[slot] = null;
+    this.count -= 1;
+    this.cursor = Math.min(this.cursor, this.count - 1);
+  }
+
+  private dropOldest(): void {
+    this.bytes -= this.slots[this.head]?.bytes ?? 0;
+    this.slots[this.head] = null;
+    this.head = (this.head + 1) % this.slots.length;
+    this.count -= 1;
+    this.cursor = Math.max(this.cursor - 1, this.count > 0 ? 0 : -1);
+  }
+}
@@ -0,0 +1,151 @@
+export type NeighborhoodShape = 'moore' | 'vonneumann' | 'circular' | 'hex' | 'triangle';
+
+/** Tiling the cells are laid out on; hex and triangle neighbourhoods bring their own. */
+export type LatticeKind = 'square' | 'hex' | 'triangle';
+
+export interface NeighborhoodDefinition {
+  key: NeighborhoodShape;
+  label: string;
+  /** Single-letter code used by the `N` segment of HROT rulestrings. */
+  code: string;
+  lattice: LatticeKind;
+}
+
+export const NEIGHBORHOODS: Record<NeighborhoodShape, NeighborhoodDefinition> = {
+  moore: { key: 'moore', label: 'Moore', code: 'M', lattice: 'square' },
+  vonneumann: { key: 'vonneumann', label: 'von Neumann', code: 'N', lattice: 'square' },
+  circular: { key: 'circular', label: 'Circular', code: 'C', lattice: 'square' },
+  hex: { key: 'hex', label: 'Hexagonal', code: 'H', lattice: 'hex' },
+  triangle: { key: 'triangle', label: 'Triangular', code: 'L', lattice: 'triangle' },
+};
+
+export const latticeOf = (shape: NeighborhoodShape | undefined): LatticeKind =>
+  NEIGHBORHOODS[shape ?? 'moore'].lattice;
+
+/**
+ * Which of a lattice's two cell kinds sits at (x, y). Hex grids are stored as offset rows with
+ * odd rows shifted half a cell right, so neighbours depend on row parity; triangles alternate
+ * pointing up (0) and down (1) along each row.
+ */
+export const latticeVariant = (lattice: LatticeKind, x: number, y: number): number => {
+  switch (lattice) {
+    case 'hex':
+      return y & 1;
+    case 'triangle':
+      return (x + y) & 1;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Moves a top-left origin to the nearest cell with the same variant as (0, 0), so a pattern
+ * pasted there keeps its shape: hex rows only repeat every two rows, triangles every two columns.
+ */
+export const alignToLattice = (lattice: LatticeKind, x: number, y: number): { x: number; y: number } => {
+  switch (lattice) {
+    case 'hex':
+      return { x, y: y - (y & 1) };
+    case 'triangle':
+      return { x: x - ((x + y) & 1), y };
+    default:
+      return { x, y };
+  }
+};
+
+export const MAX_RANGE = 10;
+
+/** Horizontal run of neighbourhood cells on row `dy`, covering offsets lo..hi inclusive. */
+export interface NeighborhoodSpan {
+  dy: number;
+  lo: number;
+  hi: number;
+}
+
+/** Offsets of the cells touching a cell of the given variant, one step away. */
+const unitNeighbors = (lattice: LatticeKind, variant: number): Array<[number, number]> => {
+  if (lattice === 'hex') {
+    const shift = variant === 0 ? -1 : 0;
+    return [[-1, 0], [1, 0], [shift, -1], [shift + 1, -1], [shift, 1], [shift + 1, 1]];
+  }
+  // Twelve triangles share a corner with each triangle: five on its base row, four beside it
+  // and three past its apex.
+  const offsets: Array<[number, number]> = [];
+  const apex = variant === 0 ? -1 : 1;
+  for (let dx = -2; dx <= 2; dx += 1) {
+    offsets.push([dx, -apex]);
+    if (dx !== 0) {
+      offsets.push([dx, 0]);
+    }
+    if (Math.abs(dx) <= 1) {
+      offsets.push([dx, apex]);
+    }
+  }
+  return offsets;
+};
+
+/** Cells within `range` steps on a hex or triangle lattice, gathered breadth first. */
+const latticeSpans = (lattice: LatticeKind, range: number, variant: number): NeighborhoodSpan[] => {
+  const reached = new Map<string, [number, number]>([['0,0', [0, 0]]]);
+  let frontier: Array<[number, number]> = [[0, 0]];
+  for (let step = 0; step < range; step += 1) {
+    const next: Array<[number, number]> = [];
+    frontier.forEach(([x, y]) => {
+      unitNeighbors(lattice, latticeVariant(lattice, x, y) ^ variant).forEach(([dx, dy]) => {
+        const key = `${x + dx},${y + dy}`;
+        if (!reached.has(key)) {
+          reached.set(key, [x + dx, y + dy]);
+          next.push([x + dx, y + dy]);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  const spans: NeighborhoodSpan[] = [];
+  for (let dy = -range; dy <= range; dy += 1) {
+    const row = [...reached.values()].filter(([, y]) => y === dy).map(([x]) => x);
+    if (row.length > 0) {
+      spans.push({ dy, lo: Math.min(...row), hi: Math.max(...row) });
+    }
+  }
+  return spans;
+};
+
+/**
+ * Rows of the neighbourhood around a cell. Square shapes look the same from every cell; hex and
+ * triangle shapes differ between the two variants `latticeVariant` reports.
+ */
+export const neighborhoodSpans = (shape: NeighborhoodShape, range: number, variant = 0): NeighborhoodSpan[] => {
+  const lattice = latticeOf(shape);
+  if (lattice !== 'square') {
+    return latticeSpans(lattice, range, variant);
+  }
+  const spans: NeighborhoodSpan[] = [];
+  for (let dy = -range; dy <= range; dy += 1) {
+    switch (shape) {
+      case 'vonneumann': {
+        const width = range - Math.abs(dy);
+        spans.push({ dy, lo: -width, hi: width });
+        break;
+      }
+      case 'circular': {
+        const width = Math.floor(Math.sqrt(range * range + range - dy * dy));
+        spans.push({ dy, lo: -width, hi: width });
+        break;
+      }
+      default:
+        spans.push({ dy, lo: -range, hi: range });
+    }
+  }
+  return spans;
+};
+
+/** Largest neighbour count the shape can produce, excluding the centre cell. */
+export const neighborhoodSize = (shape: NeighborhoodShape, range: number): number =>
+  neighborhoodSpans(shape, range).reduce((total, span) => total + span.hi - span.lo + 1, 0) - 1;
+
+export const neighborhoodFromCode = (code: string): NeighborhoodShape | null => {
+  const match = Object.values(NEIGHBORHOODS).find((definition) => definition.code === code);
+  return match ? match.key : null;
+};
@@ -0,0 +1,68 @@
+import type { EngineRule, PaintMode, SimulationStats } from './engine';
+import type { TimelineStatus } from './history';
+import type { Stability } from './stability';
+import type { BoundaryMode } from './topology';
+
+/** Longest replay a randomize request may ask for, so a crafted link cannot stall the worker. */
+export const MAX_REPLAY_GENERATIONS = 4096;
+
+/** The seed and density behind a random soup; with the rule and grid size it rebuilds the soup exactly. */
+export interface SoupOrigin {
+  seed: number;
+  density: number;
+}
+
+export interface SimulationSnapshot {
+  cols: number;
+  rows: number;
+  state: Uint8Array;
+  energy: Float32Array;
+  /** Species of each cell; all zero unless `speciesCount` is above 1. */
+  species: Uint8Array;
+  speciesCount: number;
+  decayLength: number;
+  stats: SimulationStats;
+  /** Stats of every generation stepped since the previous snapshot, oldest first. */
+  steps: SimulationStats[];
+  generationsPerSecond: number;
+  timeline: TimelineStatus;
+  stability: Stability;
+  /** Set while the grid is a seeded soup that has only been stepped since, otherwise null. */
+  origin: SoupOrigin | null;
+}
+
+/** A complete grid as saved outside the worker; restored grids are fitted to the current size. */
+export interface GridState {
+  cols: number;
+  rows: number;
+  ages: Uint8Array;
+  energy: Float32Array;
+  stats: SimulationStats;
+  /** Absent from grids saved before multi-species rules, which restore as one species. */
+  species?: Uint8Array;
+}
+
+export type WorkerRequest =
+  | { type: 'init'; cols: number; rows: number; rule: EngineRule; boundary: BoundaryMode }
+  | { type: 'resize'; cols: number; rows: number }
+  | { type: 'rule'; rule: EngineRule }
+  | { type: 'boundary'; boundary: BoundaryMode }
+  | { type: 'energyRetention'; retention: number }
+  | { type: 'running'; running: boolean }
+  | { type: 'interval'; stepDuration: number }
+  | { type: 'step' }
+  | { type: 'randomize'; density: number; seed: number; generations?: number }
+  | { type: 'clear' }
+  | { type: 'paint'; cells: number[]; mode: PaintMode; stroke?: number; species?: number }
+  | { type: 'load'; cells: number[]; species?: number[] }
+  | { type: 'restore'; grid: GridState }
+  | { type: 'seek'; position: number }
+  | { type: 'stepBack' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'historyBudget'; maxBytes: number }
+  /** Confirms the snapshot with this sequence number was received. */
+  | { type: 'ack'; sequence: number };
+
+/** Snapshots are numbered so a late ack for an earlier one cannot release the next early. */
+export type WorkerResponse = { type: 'snapshot'; snapshot: SimulationSnapshot; sequence: number };
@@ -0,0 +1,34 @@
+import { isAlive } from './engine';
+
+export interface CellBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Bounding box of every live cell, or null when the grid is empty. */
+export const findLiveBounds = (state: Uint8Array, cols: number, rows: number): CellBounds | null => {
+  let minX = cols;
+  let minY = rows;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < rows; y += 1) {
+    const row = y * cols;
+    for (let x = 0; x < cols; x += 1) {
+      if (isAlive(state[row + x])) {
+        if (x < minX) {
+          minX = x;
+        }
+        if (x > maxX) {
+          maxX = x;
+        }
+        if (y < minY) {
+          minY = y;
+        }
+        maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { minX, minY, maxX, maxY };
+};
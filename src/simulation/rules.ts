@@ -0,0 +1,122 @@
+import type { NeighborhoodShape } from './neighborhood';
+
+export interface RuleDefinition {
+  key: string;
+  label: string;
+  description: string;
+  rulestring: string;
+  birth: number[];
+  survive: number[];
+  /** Total cell states for Generations rules; 2 (the default) is plain life-like. */
+  states?: number;
+  /** Larger-than-Life neighbourhood radius; 1 when omitted. */
+  range?: number;
+  neighborhood?: NeighborhoodShape;
+  /** Whether a cell counts itself (the HROT `M1` flag). */
+  includeSelf?: boolean;
+  /** Species for colour rules such as Immigration (2) and QuadLife (4); 1 when omitted. */
+  species?: number;
+}
+
+export const RULES: Record<string, RuleDefinition> = {
+  classic: {
+    key: 'classic',
+    label: 'Conway Standard',
+    description: 'Birth on 3, survive on 2-3. Organic balance of chaos and structure.',
+    rulestring: 'B3/S23',
+    birth: [3],
+    survive: [2, 3],
+  },
+  coral: {
+    key: 'coral',
+    label: 'Coral Reef',
+    description: 'Birth on 3, survive on 4-8. Slowly growing coral formations.',
+    rulestring: 'B3/S45678',
+    birth: [3],
+    survive: [4, 5, 6, 7, 8],
+  },
+  highlife: {
+    key: 'highlife',
+    label: 'HighLife',
+    description: 'Birth on 3 and 6, survive on 2-3. Spirals and replicators emerge.',
+    rulestring: 'B36/S23',
+    birth: [3, 6],
+    survive: [2, 3],
+  },
+  brain: {
+    key: 'brain',
+    label: "Brian's Brain",
+    description: 'Birth on 2, nothing survives. Each spark leaves one refractory ember behind.',
+    rulestring: 'B2/S/G3',
+    birth: [2],
+    survive: [],
+    states: 3,
+  },
+  starwars: {
+    key: 'starwars',
+    label: 'Star Wars',
+    description: 'Birth on 2, survive on 3-5. Fleets of starships trail two-stage embers.',
+    rulestring: 'B2/S345/G4',
+    birth: [2],
+    survive: [3, 4, 5],
+    states: 4,
+  },
+  immigration: {
+    key: 'immigration',
+    label: 'Immigration',
+    description: "Conway's rule with two species. Newborns join the majority of their three parents.",
+    rulestring: 'B3/S23/K2',
+    birth: [3],
+    survive: [2, 3],
+    species: 2,
+  },
+  quadlife: {
+    key: 'quadlife',
+    label: 'QuadLife',
+    description: "Conway's rule with four species. Three different parents bear the missing fourth.",
+    rulestring: 'B3/S23/K4',
+    birth: [3],
+    survive: [2, 3],
+    species: 4,
+  },
+  hexlife: {
+    key: 'hexlife',
+    label: 'Hex Life',
+    description: 'Birth on 2, survive on 3-4 among six neighbours. Life on a honeycomb lattice.',
+    rulestring: 'B2/S34H',
+    birth: [2],
+    survive: [3, 4],
+    neighborhood: 'hex',
+  },
+  trilife: {
+    key: 'trilife',
+    label: 'Triangular Life',
+    description: "Carter Bays' rule on triangles touching at edges or corners. Birth on 4, survive on 4-6 of 12.",
+    rulestring: 'B4/S456L',
+    birth: [4],
+    survive: [4, 5, 6],
+    neighborhood: 'triangle',
+  },
+  bosco: {
+    key: 'bosco',
+    label: "Bosco's Rule",
+    description: 'Range 5 Larger-than-Life. Birth on 34-45, survive on 34-58. Gliding bugs roam a sparse field.',
+    rulestring: 'R5,C0,M1,S34..58,B34..45,NM',
+    birth: Array.from({ length: 12 }, (_, index) => 34 + index),
+    survive: Array.from({ length: 25 }, (_, index) => 34 + index),
+    range: 5,
+    neighborhood: 'moore',
+    includeSelf: true,
+  },
+  majority: {
+    key: 'majority',
+    label: 'Majority Vote',
+    description: 'Range 4 Larger-than-Life. Cells follow the local majority and melt into smooth blobs.',
+    rulestring: 'R4,C0,M1,S41..81,B41..81,NM',
+    birth: Array.from({ length: 41 }, (_, index) => 41 + index),
+    survive: Array.from({ length: 41 }, (_, index) => 41 + index),
+    range: 4,
+    neighborhood: 'moore',
+    includeSelf: true,
+  },
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { type ParsedRule, createCustomRule, describeRule, formatRulestring, parseRulestring } from './rulestring';
+
+const parsed = (input: string): ParsedRule => {
+  const result = parseRulestring(input);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.rule;
+};
+
+const LIFE: ParsedRule = {
+  birth: [3],
+  survive: [2, 3],
+  states: 2,
+  range: 1,
+  neighborhood: 'moore',
+  includeSelf: false,
+  species: 1,
+};
+
+describe('parseRulestring', () => {
+  it('reads B/S, S/B and the legacy survive/birth form alike', () => {
+    expect(parsed('B3/S23')).toEqual(LIFE);
+    expect(parsed('s23/b3')).toEqual(LIFE);
+    expect(parsed('23/3')).toEqual(LIFE);
+    expect(parsed(' B3 / S23 ')).toEqual(LIFE);
+  });
+
+  it('reads Generations rules in each notation', () => {
+    const brain = { ...LIFE, birth: [2], survive: [], states: 3 };
+    expect(parsed('B2/S/G3')).toEqual(brain);
+    expect(parsed('B2/S/C3')).toEqual(brain);
+    expect(parsed('/2/3')).toEqual(brain);
+  });
+
+  it('reads HROT range rules', () => {
+    const rule = parsed('R5,C0,M1,S34..58,B34..45,NM');
+    expect(rule.range).toBe(5);
+    expect(rule.includeSelf).toBe(true);
+    expect(rule.neighborhood).toBe('moore');
+    expect(rule.survive).toHaveLength(25);
+    expect(rule.birth[0]).toBe(34);
+    expect(rule.birth[rule.birth.length - 1]).toBe(45);
+  });
+
+  it('reads lattice suffixes and species counts', () => {
+    expect(parsed('B2/S34H')).toMatchObject({ birth: [2], survive: [3, 4], neighborhood: 'hex' });
+    expect(parsed('B4/S456L')).toMatchObject({ neighborhood: 'triangle' });
+    expect(parsed('B3/S23/K4')).toMatchObject({ species: 4 });
+    expect(parsed('Immigration')).toEqual({ ...LIFE, species: 2 });
+  });
+
+  it.each([
+    ['', 'Enter a rule'],
+    ['B3', 'separated by "/"'],
+    ['B3/S29', 'impossible'],
+    ['B33/S23', 'more than once'],
+    ['B03/S23', 'B0'],
+    ['B3/S23/G1', 'between 2'],
+    ['B3/S23/K9', 'between 1'],
+    ['B7/S2H', 'impossible'],
+    ['R11,C0,M0,S1,B2,NM', 'Range'],
+    ['R2,C0,M0,S30,B2,NM', 'exceeds'],
+    ['R2,C0,M0,S5..3,B2,NM', 'backwards'],
+    ['R2,C0,M0,S2,B3,NQ', 'Unknown neighbourhood'],
+  ])('rejects %j', (input, message) => {
+    const result = parseRulestring(input);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain(message);
+  });
+});
+
+describe('formatRulestring', () => {
+  it.each(['B3/S23', 'B36/S23', 'B2/S/G3', 'B2/S345/G4', 'B3/S23/K4', 'B2/S34H', 'B4/S456L', 'R5,C0,M1,S34..58,B34..45,NM'])(
+    'round-trips %s',
+    (rulestring) => {
+      expect(formatRulestring(parsed(rulestring))).toBe(rulestring);
+    },
+  );
+
+  it('normalises other notations to B/S', () => {
+    expect(formatRulestring(parsed('23/3'))).toBe('B3/S23');
+    expect(formatRulestring(parsed('/2/3'))).toBe('B2/S/G3');
+  });
+
+  it('falls back to HROT for neighbourhoods and counts plain B/S cannot spell', () => {
+    const rule = { ...LIFE, neighborhood: 'vonneumann' as const, birth: [2], survive: [1, 2] };
+    expect(formatRulestring(rule)).toBe('R1,C0,M0,S1..2,B2,NN');
+    expect(parsed(formatRulestring(rule))).toEqual(rule);
+  });
+});
+
+describe('createCustomRule', () => {
+  it('keys and describes the rule by its canonical rulestring', () => {
+    const rule = createCustomRule(parsed('S23/B36'));
+    expect(rule.key).toBe('custom:B36/S23');
+    expect(rule.rulestring).toBe('B36/S23');
+    expect(rule.description).toBe(describeRule(parsed('B36/S23')));
+    expect(rule.description).toContain('Birth on 3 and 6');
+  });
+});
@@ -0,0 +1,395 @@
+import { MAX_DECAY_STAGES, MAX_SPECIES } from './engine';
+import {
+  type NeighborhoodShape,
+  MAX_RANGE,
+  NEIGHBORHOODS,
+  latticeOf,
+  neighborhoodFromCode,
+  neighborhoodSize,
+} from './neighborhood';
+import type { RuleDefinition } from './rules';
+
+export interface ParsedRule {
+  birth: number[];
+  survive: number[];
+  states: number;
+  range: number;
+  neighborhood: NeighborhoodShape;
+  includeSelf: boolean;
+  species: number;
+}
+
+export type RuleParseResult = { ok: true; rule: ParsedRule } | { ok: false; error: string };
+
+/** Largest count a single digit can spell; bigger neighbourhoods need the HROT form. */
+const MAX_DIGIT = 9;
+const MAX_STATES = MAX_DECAY_STAGES + 2;
+
+const fail = (error: string): RuleParseResult => ({ ok: false, error });
+
+const parseDigits = (segment: string, label: string, maxNeighbors: number): number[] | string => {
+  const values = new Set<number>();
+  const maxDigit = Math.min(MAX_DIGIT, maxNeighbors);
+  for (const char of segment) {
+    if (!/[0-9]/.test(char)) {
+      return `${label} contains "${char}"; only neighbour counts 0-${maxDigit} are allowed.`;
+    }
+    const value = Number(char);
+    if (value > maxNeighbors) {
+      return `${label} count ${value} is impossible with ${maxNeighbors} neighbours.`;
+    }
+    if (values.has(value)) {
+      return `${label} lists ${value} more than once.`;
+    }
+    values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+};
+
+const parseStates = (segment: string): number | string => {
+  if (!/^\d+$/.test(segment)) {
+    return `Generation count "${segment}" must be a whole number.`;
+  }
+  const states = Number(segment);
+  if (states < 2 || states > MAX_STATES) {
+    return `Generation count must be between 2 and ${MAX_STATES}.`;
+  }
+  return states;
+};
+
+const parseSpecies = (segment: string): number | string => {
+  if (!/^\d+$/.test(segment)) {
+    return `Species count "${segment}" must be a whole number.`;
+  }
+  const species = Number(segment);
+  if (species < 1 || species > MAX_SPECIES) {
+    return `Species count must be between 1 and ${MAX_SPECIES}.`;
+  }
+  return species;
+};
+
+/** Trailing letters that move a life-like rule onto another lattice, as in `B2/S34H`. */
+const LATTICE_SUFFIXES: Record<string, NeighborhoodShape> = {
+  H: 'hex',
+  L: 'triangle',
+};
+
+/** Golly's names for the classic colour rules, both Conway's Life with species. */
+const NAMED_SPECIES_RULES: Record<string, number> = {
+  IMMIGRATION: 2,
+  QUADLIFE: 4,
+};
+
+const build = (
+  birthSegment: string,
+  surviveSegment: string,
+  statesSegment: string | undefined,
+  speciesSegment?: string,
+  neighborhood: NeighborhoodShape = 'moore',
+): RuleParseResult => {
+  const maxNeighbors = neighborhoodSize(neighborhood, 1);
+  const birth = parseDigits(birthSegment, 'Birth', maxNeighbors);
+  if (typeof birth === 'string') {
+    return fail(birth);
+  }
+  const survive = parseDigits(surviveSegment, 'Survival', maxNeighbors);
+  if (typeof survive === 'string') {
+    return fail(survive);
+  }
+  let states = 2;
+  if (statesSegment !== undefined) {
+    const parsed = parseStates(statesSegment);
+    if (typeof parsed === 'string') {
+      return fail(parsed);
+    }
+    states = parsed;
+  }
+  let species = 1;
+  if (speciesSegment !== undefined) {
+    const parsed = parseSpecies(speciesSegment);
+    if (typeof parsed === 'string') {
+      return fail(parsed);
+    }
+    species = parsed;
+  }
+  if (birth.includes(0)) {
+    return fail('Birth on 0 neighbours (B0) would flood empty space and is not supported.');
+  }
+  return {
+    ok: true,
+    rule: { birth, survive, states, range: 1, neighborhood, includeSelf: false, species },
+  };
+};
+
+const parseCountList = (items: string[], label: string, maxCount: number): number[] | string => {
+  const values = new Set<number>();
+  for (const item of items) {
+    const match = /^(\d+)(?:\.\.(\d+))?$/.exec(item);
+    if (!match) {
+      return `${label} entry "${item}" must be a count like 3 or a range like 34..45.`;
+    }
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    if (end < start) {
+      return `${label} range ${item} runs backwards.`;
+    }
+    if (end > maxCount) {
+      return `${label} count ${end} exceeds the ${maxCount} cells in this neighbourhood.`;
+    }
+    for (let value = start; value <= end; value += 1) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+};
+
+/** Larger-than-Life rules in Golly's HROT notation, e.g. `R5,C0,M1,S34..58,B34..45,NM`. */
+const parseHrot = (text: string): RuleParseResult => {
+  let range = 1;
+  let states = 2;
+  let includeSelf = false;
+  let neighborhood: NeighborhoodShape = 'moore';
+  const birthItems: string[] = [];
+  const surviveItems: string[] = [];
+  let section: string[] | null = null;
+
+  for (const token of text.split(',')) {
+    if (token.length === 0) {
+      continue;
+    }
+    const prefix = token.charAt(0);
+    const body = token.slice(1);
+    if (/^\d/.test(token)) {
+      if (!section) {
+        return fail(`Count "${token}" must follow an S or B segment.`);
+      }
+      section.push(token);
+      continue;
+    }
+    switch (prefix) {
+      case 'R':
+        range = Number(body);
+        if (!Number.isInteger(range) || range < 1 || range > MAX_RANGE) {
+          return fail(`Range must be a whole number from 1 to ${MAX_RANGE}.`);
+        }
+        section = null;
+        break;
+      case 'C': {
+        const count = Number(body);
+        if (!Number.isInteger(count) || count < 0 || count > MAX_DECAY_STAGES + 2) {
+          return fail(`State count must be between 0 and ${MAX_DECAY_STAGES + 2}.`);
+        }
+        states = Math.max(2, count);
+        section = null;
+        break;
+      }
+      case 'M':
+        if (body !== '0' && body !== '1') {
+          return fail('The M flag must be M0 (exclude centre) or M1 (include centre).');
+        }
+        includeSelf = body === '1';
+        section = null;
+        break;
+      case 'S':
+        section = surviveItems;
+        if (body.length > 0) {
+          section.push(body);
+        }
+        break;
+      case 'B':
+        section = birthItems;
+        if (body.length > 0) {
+          section.push(body);
+        }
+        break;
+      case 'N': {
+        const shape = neighborhoodFromCode(body);
+        if (!shape) {
+          const codes = Object.values(NEIGHBORHOODS).map((definition) => definition.code).join(', ');
+          return fail(`Unknown neighbourhood "${body}"; use one of ${codes}.`);
+        }
+        neighborhood = shape;
+        section = null;
+        break;
+      }
+      default:
+        return fail(`Unexpected segment "${token}" in range rule.`);
+    }
+  }
+
+  const maxCount = neighborhoodSize(neighborhood, range) + (includeSelf ? 1 : 0);
+  const birth = parseCountList(birthItems, 'Birth', maxCount);
+  if (typeof birth === 'string') {
+    return fail(birth);
+  }
+  const survive = parseCountList(surviveItems, 'Survival', maxCount);
+  if (typeof survive === 'string') {
+    return fail(survive);
+  }
+  if (birth.includes(0)) {
+    return fail('Birth on 0 neighbours (B0) would flood empty space and is not supported.');
+  }
+  return { ok: true, rule: { birth, survive, states, range, neighborhood, includeSelf, species: 1 } };
+};
+
+/**
+ * Parses outer-totalistic rulestrings: `B3/S23`, `S23/B3`, the legacy `23/3` (survive/birth),
+ * the Generations forms `B2/S/G3`, `B2/S/C3` and `/2/3`, HROT range rules, species
+ * counts as a `K` segment (`B3/S23/K4`) or by name (`Immigration`, `QuadLife`), and a trailing
+ * `H` or `L` for the hexagonal (6) or triangular (12) neighbourhood (`B2/S34H`, `B4/S456L`).
+ */
+export const parseRulestring = (input: string): RuleParseResult => {
+  const text = input.replace(/\s+/g, '').toUpperCase();
+  if (text.length === 0) {
+    return fail('Enter a rule such as B3/S23, 23/3, B2/S/G3 or R5,C0,M1,S34..58,B34..45,NM.');
+  }
+
+  if (text.includes(',')) {
+    return parseHrot(text);
+  }
+
+  const named = NAMED_SPECIES_RULES[text];
+  if (named !== undefined) {
+    return build('3', '23', undefined, String(named));
+  }
+
+  const suffix = /^(.+)([HL])$/.exec(text);
+  const neighborhood = suffix ? LATTICE_SUFFIXES[suffix[2]] : undefined;
+  const parts = (suffix ? suffix[1] : text).split('/');
+  if (parts.length < 2 || parts.length > 4) {
+    return fail('A rule needs birth and survival parts separated by "/", with optional generation and species counts.');
+  }
+
+  if (/[BS]/.test(text)) {
+    let birth: string | undefined;
+    let survive: string | undefined;
+    let states: string | undefined;
+    let species: string | undefined;
+    for (const part of parts) {
+      const prefix = part.charAt(0);
+      const body = part.slice(1);
+      if (prefix === 'B' && birth === undefined) {
+        birth = body;
+      } else if (prefix === 'S' && survive === undefined) {
+        survive = body;
+      } else if ((prefix === 'G' || prefix === 'C') && states === undefined) {
+        states = body;
+      } else if (prefix === 'K' && species === undefined) {
+        species = body;
+      } else {
+        return fail(`Unexpected segment "${part}"; use B, S, G (or C) and K once each.`);
+      }
+    }
+    if (birth === undefined || survive === undefined) {
+      return fail('Both a B (birth) and an S (survival) segment are required.');
+    }
+    return build(birth, survive, states, species, neighborhood);
+  }
+
+  if (parts.length > 3) {
+    return fail('The survive/birth form takes at most a generation count after the two counts.');
+  }
+  const [survive, birth, states] = parts;
+  return build(birth, survive, states, undefined, neighborhood);
+};
+
+const compressCounts = (values: number[]): string[] => {
+  const ranges: string[] = [];
+  let start = values[0];
+  let previous = values[0];
+  for (let i = 1; i <= values.length; i += 1) {
+    const value = values[i];
+    if (value === previous + 1) {
+      previous = value;
+      continue;
+    }
+    ranges.push(start === previous ? `${start}` : `${start}..${previous}`);
+    start = value;
+    previous = value;
+  }
+  return values.length > 0 ? ranges : [];
+};
+
+type FormattableRule = Pick<ParsedRule, 'birth' | 'survive'> & Partial<ParsedRule>;
+
+/** Life-like suffix for neighbourhoods that bring their own lattice, e.g. `H` for hexagonal. */
+const latticeSuffix = (neighborhood: NeighborhoodShape): string =>
+  latticeOf(neighborhood) === 'square' ? '' : NEIGHBORHOODS[neighborhood].code;
+
+const isRangeRule = (rule: FormattableRule): boolean => {
+  const neighborhood = rule.neighborhood ?? 'moore';
+  return (
+    (rule.range ?? 1) > 1
+    || rule.includeSelf === true
+    || (neighborhood !== 'moore' && latticeSuffix(neighborhood) === '')
+    || [...rule.birth, ...rule.survive].some((count) => count > MAX_DIGIT)
+  );
+};
+
+export const formatRulestring = (rule: FormattableRule): string => {
+  if (isRangeRule(rule)) {
+    const survive = compressCounts(rule.survive).join(',');
+    const birth = compressCounts(rule.birth).join(',');
+    const code = NEIGHBORHOODS[rule.neighborhood ?? 'moore'].code;
+    const states = rule.states && rule.states > 2 ? rule.states : 0;
+    return `R${rule.range ?? 1},C${states},M${rule.includeSelf ? 1 : 0},S${survive},B${birth},N${code}`;
+  }
+  const base = `B${rule.birth.join('')}/S${rule.survive.join('')}`;
+  const generations = rule.states && rule.states > 2 ? `${base}/G${rule.states}` : base;
+  const species = rule.species && rule.species > 1 ? `${generations}/K${rule.species}` : generations;
+  return `${species}${latticeSuffix(rule.neighborhood ?? 'moore')}`;
+};
+
+const formatCounts = (values: number[]): string => {
+  const ranges: string[] = [];
+  let start = values[0];
+  let previous = values[0];
+  for (let i = 1; i <= values.length; i += 1) {
+    const value = values[i];
+    if (value === previous + 1) {
+      previous = value;
+      continue;
+    }
+    ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+    start = value;
+    previous = value;
+  }
+  if (ranges.length === 1) {
+    return ranges[0];
+  }
+  return `${ranges.slice(0, -1).join(', ')} and ${ranges[ranges.length - 1]}`;
+};
+
+export const describeRule = (rule: ParsedRule): string => {
+  const birth = rule.birth.length > 0 ? `Birth on ${formatCounts(rule.birth)}` : 'No births';
+  const survive = rule.survive.length > 0 ? `survive on ${formatCounts(rule.survive)}` : 'nothing survives';
+  const embers = rule.states - 2;
+  const decay = embers > 0 ? ` Dying cells fade through ${embers} ember state${embers === 1 ? '' : 's'}.` : '';
+  let reach = '';
+  if (isRangeRule(rule)) {
+    reach = ` Range ${rule.range} ${NEIGHBORHOODS[rule.neighborhood].label} neighbourhood${rule.includeSelf ? ' including the centre' : ''}.`;
+  } else if (latticeSuffix(rule.neighborhood) !== '') {
+    const lattice = NEIGHBORHOODS[rule.neighborhood].label.toLowerCase();
+    reach = ` On a ${lattice} lattice with ${neighborhoodSize(rule.neighborhood, 1)} neighbours.`;
+  }
+  const species =
+    rule.species > 1 ? ` Cells belong to ${rule.species} species; newborns take their parents' majority.` : '';
+  return `${birth}, ${survive}.${reach}${decay}${species}`;
+};
+
+export const createCustomRule = (rule: ParsedRule): RuleDefinition => {
+  const rulestring = formatRulestring(rule);
+  return {
+    key: `custom:${rulestring}`,
+    label: `Custom ${rulestring}`,
+    description: describeRule(rule),
+    rulestring,
+    birth: rule.birth,
+    survive: rule.survive,
+    states: rule.states,
+    range: rule.range,
+    neighborhood: rule.neighborhood,
+    includeSelf: rule.includeSelf,
+    species: rule.species,
+  };
+};
@@ -0,0 +1,63 @@
+import type { SimulationStats } from './engine';
+
+export interface StatsSample {
+  generation: number;
+  alive: number;
+  births: number;
+  fades: number;
+  /** Alive cells as a fraction of the whole grid. */
+  ratio: number;
+}
+
+/**
+ * Per-generation stats over a sliding window. Recording a generation at or before the latest
+ * one (after a rewind, undo or reseed) first discards everything from that generation on, so
+ * the series always describes the path that led to the grid on screen.
+ */
+export class StatsSeries {
+  readonly capacity: number;
+
+  /** Bumped on every change so views can tell when to redraw. */
+  revision = 0;
+
+  private entries: StatsSample[] = [];
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  get samples(): readonly StatsSample[] {
+    return this.entries;
+  }
+
+  record(stats: SimulationStats, totalCells: number): void {
+    const { entries } = this;
+    while (entries.length > 0 && entries[entries.length - 1].generation >= stats.generation) {
+      entries.pop();
+    }
+    entries.push({
+      generation: stats.generation,
+      alive: stats.alive,
+      births: stats.births,
+      fades: stats.fades,
+      ratio: totalCells > 0 ? stats.alive / totalCells : 0,
+    });
+    // Trim in batches so the window slides without shifting the array every generation.
+    if (entries.length > this.capacity * 1.25) {
+      entries.splice(0, entries.length - this.capacity);
+    }
+    this.revision += 1;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.revision += 1;
+  }
+}
+
+export const seriesToCsv = (samples: readonly StatsSample[]): string => {
+  const rows = samples.map(
+    (sample) => `${sample.generation},${sample.alive},${sample.births},${sample.fades},${sample.ratio.toFixed(6)}`,
+  );
+  return ['generation,alive,births,fades,alive_ratio', ...rows].join('\n') + '\n';
+};
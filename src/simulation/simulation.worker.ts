@@ -0,0 +1,285 @@
+import { DEFAULT_ENERGY_RETENTION, LifeEngine, type SimulationStats } from './engine';
+import { Timeline } from './history';
+import { StabilityDetector } from './stability';
+import {
+  MAX_REPLAY_GENERATIONS,
+  type SimulationSnapshot,
+  type SoupOrigin,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './protocol';
+import { createRandom } from '../utils/random';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+/** Steps allowed per tick before the backlog is dropped, so a slow grid cannot spiral. */
+const MAX_STEPS_PER_TICK = 8;
+const RATE_WINDOW_MS = 1000;
+const DEFAULT_HISTORY_BYTES = 64 * 1024 * 1024;
+/** Per-step stats kept while the main thread is behind; older ones are dropped. */
+const MAX_PENDING_STEPS = 4096;
+
+let engine: LifeEngine | null = null;
+let running = true;
+let stepDuration = 500;
+let energyRetention = DEFAULT_ENERGY_RETENTION;
+let accumulator = 0;
+let lastTick = performance.now();
+let dirty = false;
+let awaitingAck = false;
+/** Number of the latest snapshot posted; only its ack lets the next one go. */
+let sequence = 0;
+let stepTimes: number[] = [];
+let pendingSteps: SimulationStats[] = [];
+const timeline = new Timeline(DEFAULT_HISTORY_BYTES);
+const stability = new StabilityDetector();
+let origin: SoupOrigin | null = null;
+
+/**
+ * Any change other than a plain step breaks the sequence the detector has been watching, and
+ * means the grid can no longer be rebuilt from a seed.
+ */
+const rebaseline = (): void => {
+  origin = null;
+  stability.reset();
+  if (engine) {
+    stability.observe(engine.state, engine.generation);
+  }
+};
+
+/** Advances one generation and feeds it to the timeline, detector and stats stream. */
+const advance = (current: LifeEngine): void => {
+  current.step();
+  timeline.record(current, 'step');
+  stability.observe(current.state, current.generation);
+  pendingSteps.push(current.stats);
+  if (pendingSteps.length > MAX_PENDING_STEPS) {
+    pendingSteps = pendingSteps.slice(-MAX_PENDING_STEPS);
+  }
+};
+
+const recordStep = (now: number): void => {
+  stepTimes.push(now);
+  const cutoff = now - RATE_WINDOW_MS;
+  let stale = 0;
+  while (stale < stepTimes.length && stepTimes[stale] < cutoff) {
+    stale += 1;
+  }
+  if (stale > 0) {
+    stepTimes = stepTimes.slice(stale);
+  }
+};
+
+const generationsPerSecond = (now: number): number => {
+  const cutoff = now - RATE_WINDOW_MS;
+  return stepTimes.filter((time) => time >= cutoff).length * (1000 / RATE_WINDOW_MS);
+};
+
+const publish = (now: number): void => {
+  if (!engine || !dirty || awaitingAck) {
+    return;
+  }
+  const state = engine.state.slice();
+  const energy = engine.energy.slice();
+  const species = engine.species.slice();
+  const snapshot: SimulationSnapshot = {
+    cols: engine.cols,
+    rows: engine.rows,
+    state,
+    energy,
+    species,
+    speciesCount: engine.speciesCount,
+    decayLength: engine.decayLength,
+    stats: engine.stats,
+    steps: pendingSteps,
+    generationsPerSecond: generationsPerSecond(now),
+    timeline: timeline.status(),
+    stability: stability.current,
+    origin,
+  };
+  pendingSteps = [];
+  dirty = false;
+  awaitingAck = true;
+  sequence += 1;
+  scope.postMessage({ type: 'snapshot', snapshot, sequence }, [state.buffer, energy.buffer, species.buffer]);
+};
+
+const tick = (): void => {
+  const now = performance.now();
+  accumulator += now - lastTick;
+  lastTick = now;
+
+  if (engine && running) {
+    let steps = 0;
+    while (accumulator >= stepDuration && steps < MAX_STEPS_PER_TICK) {
+      advance(engine);
+      recordStep(now);
+      accumulator -= stepDuration;
+      steps += 1;
+      dirty = true;
+    }
+    if (steps === MAX_STEPS_PER_TICK) {
+      accumulator = 0;
+    }
+  } else {
+    accumulator = Math.min(accumulator, stepDuration);
+  }
+
+  publish(now);
+  setTimeout(tick, Math.max(4, Math.min(16, stepDuration - accumulator)));
+};
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>): void => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      engine = new LifeEngine(message.cols, message.rows, message.rule, message.boundary);
+      engine.energyRetention = energyRetention;
+      timeline.reset();
+      timeline.record(engine, 'step');
+      rebaseline();
+      stepTimes = [];
+      pendingSteps = [];
+      awaitingAck = false;
+      dirty = true;
+      break;
+    case 'resize':
+      if (engine) {
+        engine = engine.resized(message.cols, message.rows);
+        timeline.reset();
+        timeline.record(engine, 'step');
+        rebaseline();
+        awaitingAck = false;
+        dirty = true;
+      }
+      break;
+    case 'rule':
+      if (engine) {
+        engine.setRule(message.rule);
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'boundary':
+      if (engine) {
+        engine.boundary = message.boundary;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'energyRetention':
+      energyRetention = message.retention;
+      if (engine) {
+        engine.energyRetention = energyRetention;
+      }
+      break;
+    case 'running':
+      running = message.running;
+      break;
+    case 'interval':
+      stepDuration = Math.max(1, message.stepDuration);
+      break;
+    case 'step':
+      if (engine) {
+        advance(engine);
+        dirty = true;
+      }
+      break;
+    case 'randomize':
+      if (engine) {
+        engine.randomize(message.density, createRandom(message.seed));
+        timeline.record(engine, 'edit');
+        rebaseline();
+        origin = { seed: message.seed, density: message.density };
+        const replay = Math.min(message.generations ?? 0, MAX_REPLAY_GENERATIONS);
+        for (let generation = 0; generation < replay; generation += 1) {
+          advance(engine);
+        }
+        accumulator = 0;
+        dirty = true;
+      }
+      break;
+    case 'clear':
+      if (engine) {
+        engine.clear();
+        timeline.record(engine, 'edit');
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'paint':
+      if (engine) {
+        engine.paint(message.cells, message.mode, message.species);
+        timeline.record(engine, 'edit', message.stroke === undefined ? null : `stroke:${message.stroke}`);
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'load':
+      if (engine) {
+        engine.clear();
+        engine.paint(message.cells, 'draw', message.species);
+        timeline.record(engine, 'edit');
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'restore':
+      if (engine) {
+        const { grid } = message;
+        engine.restoreFitted(grid.cols, grid.rows, grid.ages, grid.energy, grid.stats, grid.species);
+        timeline.record(engine, 'edit');
+        accumulator = 0;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'seek':
+      if (engine && timeline.seek(engine, message.position)) {
+        accumulator = 0;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'stepBack':
+      if (engine && timeline.seek(engine, timeline.position - 1)) {
+        accumulator = 0;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'undo':
+      if (engine && timeline.undo(engine)) {
+        accumulator = 0;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'redo':
+      if (engine && timeline.redo(engine)) {
+        accumulator = 0;
+        rebaseline();
+        dirty = true;
+      }
+      break;
+    case 'historyBudget':
+      timeline.setMaxBytes(message.maxBytes);
+      dirty = true;
+      break;
+    case 'ack':
+      if (message.sequence === sequence) {
+        awaitingAck = false;
+      }
+      break;
+    default:
+      break;
+  }
+  publish(performance.now());
+};
+
+tick();
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { LifeEngine } from './engine';
+import { RULES } from './rules';
+import { EVOLVING, StabilityDetector, describeStability } from './stability';
+
+const engineWith = (cells: Array<[number, number]>): LifeEngine => {
+  const engine = new LifeEngine(8, 8, RULES.classic);
+  cells.forEach(([x, y]) => engine.setAge(x, y, 1));
+  return engine;
+};
+
+/** Steps `steps` generations, showing each to the detector, and returns the last verdict. */
+const watch = (engine: LifeEngine, detector: StabilityDetector, steps: number) => {
+  let verdict = detector.current;
+  for (let step = 0; step < steps; step += 1) {
+    engine.step();
+    verdict = detector.observe(engine.state, engine.generation);
+  }
+  return verdict;
+};
+
+describe('StabilityDetector', () => {
+  it('finds a block still and keeps the generation it settled at', () => {
+    const engine = engineWith([
+      [2, 2],
+      [3, 2],
+      [2, 3],
+      [3, 3],
+    ]);
+    const detector = new StabilityDetector();
+    detector.observe(engine.state, engine.generation);
+    expect(watch(engine, detector, 1)).toEqual({ kind: 'still', period: 1, since: 1, stepped: true });
+    expect(watch(engine, detector, 5)).toEqual({ kind: 'still', period: 1, since: 1, stepped: true });
+  });
+
+  it('finds a blinker oscillating with period 2 once a full cycle repeats', () => {
+    const engine = engineWith([
+      [2, 3],
+      [3, 3],
+      [4, 3],
+    ]);
+    const detector = new StabilityDetector();
+    detector.observe(engine.state, engine.generation);
+    expect(watch(engine, detector, 2).kind).toBe('evolving');
+    expect(watch(engine, detector, 2)).toEqual({ kind: 'oscillating', period: 2, since: 3, stepped: true });
+  });
+
+  it('calls a dying colony extinct at the generation it emptied', () => {
+    const engine = engineWith([[3, 3]]);
+    const detector = new StabilityDetector();
+    detector.observe(engine.state, engine.generation);
+    expect(watch(engine, detector, 3)).toEqual({ kind: 'extinct', period: 0, since: 1, stepped: true });
+  });
+
+  it('does not count a board that was empty when watching began as stepped', () => {
+    const engine = engineWith([[3, 3]]);
+    engine.step();
+    const detector = new StabilityDetector();
+    detector.observe(engine.state, engine.generation);
+    expect(watch(engine, detector, 4)).toEqual({ kind: 'extinct', period: 0, since: 1, stepped: false });
+  });
+
+  it('starts over after a reset', () => {
+    const engine = engineWith([
+      [2, 2],
+      [3, 2],
+      [2, 3],
+      [3, 3],
+    ]);
+    const detector = new StabilityDetector();
+    detector.observe(engine.state, engine.generation);
+    watch(engine, detector, 2);
+    detector.reset();
+    expect(detector.current).toBe(EVOLVING);
+    expect(detector.observe(engine.state, engine.generation)).toEqual(EVOLVING);
+  });
+});
+
+describe('describeStability', () => {
+  it('labels each verdict', () => {
+    expect(describeStability(EVOLVING)).toBe('Evolving');
+    expect(describeStability({ kind: 'still', period: 1, since: 12, stepped: true })).toBe('Still life since gen 12');
+    expect(describeStability({ kind: 'oscillating', period: 3, since: 40, stepped: true })).toBe(
+      'Period 3 oscillation since gen 40',
+    );
+    expect(describeStability({ kind: 'extinct', period: 0, since: 7, stepped: true })).toBe('Extinct at gen 7');
+  });
+});
@@ -0,0 +1,135 @@
+import { MAX_AGE } from './engine';
+
+export type StabilityKind = 'evolving' | 'still' | 'oscillating' | 'extinct';
+
+export interface Stability {
+  kind: StabilityKind;
+  /** Oscillation period; 1 for still lifes and 0 while evolving or extinct. */
+  period: number;
+  /** Generation at which the current verdict was first reached, or null while evolving. */
+  since: number | null;
+  /**
+   * Whether stepping produced the verdict, rather than it holding already for the grid as it
+   * was last edited, cleared or loaded (an emptied board is extinct without ever evolving).
+   */
+  stepped: boolean;
+}
+
+export const EVOLVING: Stability = { kind: 'evolving', period: 0, since: null, stepped: false };
+
+/** What the observatory does once a colony settles. */
+export type SettlePolicy = 'continue' | 'pause' | 'reseed';
+
+export const SETTLE_POLICIES: Record<SettlePolicy, { key: SettlePolicy; label: string }> = {
+  continue: { key: 'continue', label: 'Keep Running' },
+  pause: { key: 'pause', label: 'Pause' },
+  reseed: { key: 'reseed', label: 'Reseed' },
+};
+
+export const describeStability = (stability: Stability): string => {
+  switch (stability.kind) {
+    case 'still':
+      return `Still life since gen ${stability.since}`;
+    case 'oscillating':
+      return `Period ${stability.period} oscillation since gen ${stability.since}`;
+    case 'extinct':
+      return `Extinct at gen ${stability.since}`;
+    default:
+      return 'Evolving';
+  }
+};
+
+/** Longest cycle looked for; a cycle must repeat in full before it is reported. */
+export const MAX_PERIOD = 64;
+
+const HISTORY = MAX_PERIOD * 2;
+
+/**
+ * Watches one generation at a time and reports when the grid has died out or fallen into a
+ * cycle. States are compared by a pair of 32-bit hashes of which cells are alive (or which
+ * ember stage they are in), ignoring ages that keep climbing in a still life.
+ */
+export class StabilityDetector {
+  private readonly primary = new Int32Array(HISTORY);
+
+  private readonly secondary = new Int32Array(HISTORY);
+
+  private readonly generations = new Float64Array(HISTORY);
+
+  private count = 0;
+
+  /** Generation of the first state observed since the last reset. */
+  private baseline = 0;
+
+  private verdict: Stability = EVOLVING;
+
+  get current(): Stability {
+    return this.verdict;
+  }
+
+  reset(): void {
+    this.count = 0;
+    this.verdict = EVOLVING;
+  }
+
+  observe(state: Uint8Array, generation: number): Stability {
+    let primary = 0x811c9dc5;
+    let secondary = 0x9e3779b9;
+    let occupied = 0;
+    for (let i = 0; i < state.length; i += 1) {
+      const value = state[i];
+      if (value === 0) {
+        continue;
+      }
+      occupied += 1;
+      const symbol = value > MAX_AGE ? value - MAX_AGE + 1 : 1;
+      primary = Math.imul(primary ^ (i * 31 + symbol), 0x01000193);
+      secondary = Math.imul(secondary + i, 0x85ebca6b) ^ (symbol << 13);
+    }
+
+    if (this.count === 0) {
+      this.baseline = generation;
+    }
+    const slot = this.count % HISTORY;
+    this.primary[slot] = primary;
+    this.secondary[slot] = secondary;
+    this.generations[slot] = generation;
+    this.count += 1;
+
+    if (occupied === 0) {
+      return this.settle('extinct', 0, generation);
+    }
+    const period = this.findPeriod();
+    if (period === 0) {
+      this.verdict = EVOLVING;
+      return this.verdict;
+    }
+    return this.settle(period === 1 ? 'still' : 'oscillating', period, generation);
+  }
+
+  /** Smallest p whose last p states each equal the state p generations earlier. */
+  private findPeriod(): number {
+    const available = Math.min(this.count, HISTORY);
+    for (let period = 1; period * 2 <= available; period += 1) {
+      let repeats = true;
+      for (let offset = 0; offset < period && repeats; offset += 1) {
+        const a = (this.count - 1 - offset) % HISTORY;
+        const b = (this.count - 1 - offset - period) % HISTORY;
+        repeats = this.primary[a] === this.primary[b]
+          && this.secondary[a] === this.secondary[b]
+          && this.generations[a] - this.generations[b] === period;
+      }
+      if (repeats) {
+        return period;
+      }
+    }
+    return 0;
+  }
+
+  private settle(kind: StabilityKind, period: number, generation: number): Stability {
+    if (this.verdict.kind !== kind || this.verdict.period !== period) {
+      this.verdict = { kind, period, since: generation, stepped: generation > this.baseline };
+    }
+    return this.verdict;
+  }
+}
@@ -0,0 +1,81 @@
+export type BoundaryMode = 'dead' | 'torus' | 'klein' | 'mirror';
+
+export interface BoundaryDefinition {
+  key: BoundaryMode;
+  label: string;
+  description: string;
+}
+
+export const BOUNDARIES: Record<BoundaryMode, BoundaryDefinition> = {
+  dead: {
+    key: 'dead',
+    label: 'Dead Edges',
+    description: 'Beyond the frame lies the void; colonies starve at the border.',
+  },
+  torus: {
+    key: 'torus',
+    label: 'Toroidal Wrap',
+    description: 'Opposite edges are stitched together so gliders loop forever.',
+  },
+  klein: {
+    key: 'klein',
+    label: 'Klein Bottle',
+    description: 'Left and right wrap; top and bottom wrap with a mirror twist.',
+  },
+  mirror: {
+    key: 'mirror',
+    label: 'Reflective',
+    description: 'Edges act as mirrors, echoing the outermost cells back inward.',
+  },
+};
+
+const reflect = (value: number, size: number): number => {
+  if (value < 0) {
+    return -value - 1;
+  }
+  if (value >= size) {
+    return 2 * size - value - 1;
+  }
+  return value;
+};
+
+const wrap = (value: number, size: number): number => ((value % size) + size) % size;
+
+/**
+ * Maps a possibly out-of-range coordinate onto the grid for the given boundary mode.
+ * Returns -1 when the coordinate falls off a dead edge.
+ */
+export const resolveNeighborIndex = (
+  x: number,
+  y: number,
+  cols: number,
+  rows: number,
+  mode: BoundaryMode,
+): number => {
+  if (x >= 0 && x < cols && y >= 0 && y < rows) {
+    return y * cols + x;
+  }
+
+  switch (mode) {
+    case 'torus':
+      return wrap(y, rows) * cols + wrap(x, cols);
+    case 'klein': {
+      const crossings = Math.floor(y / rows);
+      let xx = wrap(x, cols);
+      if (crossings % 2 !== 0) {
+        xx = cols - 1 - xx;
+      }
+      return wrap(y, rows) * cols + xx;
+    }
+    case 'mirror': {
+      const xx = reflect(x, cols);
+      const yy = reflect(y, rows);
+      if (xx < 0 || xx >= cols || yy < 0 || yy >= rows) {
+        return -1;
+      }
+      return yy * cols + xx;
+    }
+    default:
+      return -1;
+  }
+};
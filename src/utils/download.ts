@@ -0,0 +1,12 @@
+/** How long an object URL outlives its click; some browsers start the download asynchronously. */
+const REVOKE_DELAY_MS = 1000;
+
+/** Saves a blob as a file through a temporary object URL. */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,4 @@
+export const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+export const lerp = (start: number, end: number, t: number): number => start + (end - start) * t;
@@ -0,0 +1,41 @@
+export type RandomSource = () => number;
+
+/** Largest seed; seeds are unsigned 32-bit integers so they fit a text field and a link. */
+export const MAX_SEED = 0xffffffff;
+
+/** Mulberry32: small, fast and good enough for soups, noise and sprite scatter. */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Independent seed for one consumer of a shared seed, so the soup, textures and scatter each
+ * get their own stream and adding a draw to one never shifts the others.
+ */
+export const deriveSeed = (seed: number, stream: string): number => {
+  let hash = (seed ^ 0x811c9dc5) >>> 0;
+  for (let i = 0; i < stream.length; i += 1) {
+    hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+/** A fresh seed for when the user has not chosen one. */
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/** Reads a seed typed by the user: a whole number in range, or null. */
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const value = Number(trimmed);
+  return value <= MAX_SEED ? value : null;
+};